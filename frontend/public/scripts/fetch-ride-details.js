@@ -117,16 +117,37 @@
     return ride;
   }
 
+  // Rides already saved in the app don't need their details fetched again
+  const knownRideIds = new Set(window.__knownRideIds || []);
+
+  if (
+    knownRideIds.size > 0 &&
+    Array.isArray(window.__rideSummaries) &&
+    window.__rideSummaries.length === 0
+  ) {
+    console.log("✅ No new rides since your last import - you're up to date!");
+    return;
+  }
+
   if (!window.__rideSummaries?.length) {
     throw new Error("window.__rideSummaries is empty. Run Script A first.");
   }
 
-  // Get all unique ride IDs
-  const rideIds = [
+  // Get all unique ride IDs we don't already have
+  const summaryRideIds = [
     ...new Set(window.__rideSummaries.map((r) => r.rideId).filter(Boolean)),
   ];
+  const rideIds = summaryRideIds.filter((id) => !knownRideIds.has(id));
   const totalRides = rideIds.length;
 
+  if (rideIds.length < summaryRideIds.length) {
+    console.log(
+      `🔁 Skipping ${
+        summaryRideIds.length - rideIds.length
+      } rides already saved in the app`
+    );
+  }
+
   // Initialize or get existing ride details cache
   window.__rideDetails = window.__rideDetails || {};
   const out = window.__rideDetails;
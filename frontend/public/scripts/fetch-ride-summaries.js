@@ -131,6 +131,8 @@
 
   // Get estimated ride count if provided
   const estimatedRides = window.__estimatedRideCount || null;
+  // Newest ride already saved in the app - stop paging once we reach it
+  const latestKnownStartTimeMs = window.__latestKnownStartTimeMs || null;
   const startTime = Date.now();
   let pagesProcessed = 0;
 
@@ -138,6 +140,13 @@
   if (estimatedRides) {
     console.log(`📊 Estimated rides: ~${estimatedRides}`);
   }
+  if (latestKnownStartTimeMs) {
+    console.log(
+      `🔁 Only fetching rides after ${new Date(
+        latestKnownStartTimeMs
+      ).toLocaleString()} (your newest saved ride)`
+    );
+  }
   console.log("⏱️  Time estimates will be calculated dynamically as we go...");
   console.log("");
   console.log(
@@ -197,14 +206,25 @@
         }
       }
 
-      all.push(...page);
+      // Rides come newest first, so once we see a saved ride the rest of
+      // the history is already known
+      const newRides = latestKnownStartTimeMs
+        ? page.filter((r) => Number(r.startTimeMs) > latestKnownStartTimeMs)
+        : page;
+      const reachedKnownRides = newRides.length < page.length;
+
+      all.push(...newRides);
       pagesProcessed++;
 
-      hasMore = !!rh.hasMore;
+      hasMore = !!rh.hasMore && !reachedKnownRides;
       limit = rh.limit ?? limit;
 
-      const progress = `+${page.length} rides (total: ${all.length})`;
-      const moreInfo = hasMore ? ` | More pages remaining...` : ` | All done!`;
+      const progress = `+${newRides.length} rides (total: ${all.length})`;
+      const moreInfo = hasMore
+        ? ` | More pages remaining...`
+        : reachedKnownRides
+        ? ` | Reached your saved rides, all done!`
+        : ` | All done!`;
 
       // Calculate dynamic time estimate if we have estimated rides
       let progressMsg = `✅ ${progress}${moreInfo}`;
@@ -248,6 +268,11 @@
     console.log("╚═══════════════════════════════╝");
     console.log("");
     console.log(`📊 Total rides fetched: ${all.length}`);
+    if (latestKnownStartTimeMs && all.length === 0) {
+      console.log(
+        "✅ No new rides since your last import - you're up to date!"
+      );
+    }
     console.log(
       `🆔 Unique ride IDs: ${new Set(all.map((r) => r.rideId)).size}`
     );
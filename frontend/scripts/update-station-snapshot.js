@@ -0,0 +1,63 @@
+// Refresh public/data/stations-snapshot.json from the live TfL feed.
+// Usage: npm run update-stations
+import { writeFile } from "node:fs/promises";
+
+const STATIONS_URL =
+  "https://tfl.gov.uk/tfl/syndication/feeds/cycle-hire/livecyclehireupdates.xml";
+const OUTPUT_PATH = new URL(
+  "../public/data/stations-snapshot.json",
+  import.meta.url
+);
+
+function getTag(xml, tagName) {
+  const match = xml.match(new RegExp(`<${tagName}>([^<]*)</${tagName}>`));
+  return match ? match[1].trim() : "";
+}
+
+function decodeEntities(text) {
+  return text
+    .replace(/&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+const numberOrNull = (text) => (text ? parseFloat(text) : null);
+
+const response = await fetch(STATIONS_URL);
+if (!response.ok) {
+  throw new Error(`Failed to fetch stations: ${response.statusText}`);
+}
+const xml = await response.text();
+
+const stations = [...xml.matchAll(/<station>([\s\S]*?)<\/station>/g)].map(
+  ([, stationXml]) => ({
+    id: getTag(stationXml, "id"),
+    name: decodeEntities(getTag(stationXml, "name")),
+    terminalName: getTag(stationXml, "terminalName"),
+    lat: numberOrNull(getTag(stationXml, "lat")) ?? 0,
+    long: numberOrNull(getTag(stationXml, "long")) ?? 0,
+    installed: getTag(stationXml, "installed") === "true",
+    locked: getTag(stationXml, "locked") === "true",
+    installDate: numberOrNull(getTag(stationXml, "installDate")),
+    removalDate: numberOrNull(getTag(stationXml, "removalDate")),
+    temporary: getTag(stationXml, "temporary") === "true",
+    // Availability is meaningless in a snapshot
+    nbBikes: 0,
+    nbStandardBikes: 0,
+    nbEBikes: 0,
+    nbEmptyDocks: 0,
+    nbDocks: numberOrNull(getTag(stationXml, "nbDocks")) ?? 0,
+  })
+);
+
+if (stations.length === 0) {
+  throw new Error("Station feed contained no stations");
+}
+
+await writeFile(
+  OUTPUT_PATH,
+  JSON.stringify({ fetchedAt: Date.now(), stations }, null, 2) + "\n"
+);
+console.log(`Wrote ${stations.length} stations to ${OUTPUT_PATH.pathname}`);
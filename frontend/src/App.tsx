@@ -1,73 +1,106 @@
-import { useState } from "react";
+import { useMemo } from "react";
 import Step1ScrapeSummaries from "./components/Step1ScrapeSummaries";
 import Step2ScrapeDetails from "./components/Step2ScrapeDetails";
 import Step3PasteData from "./components/Step3PasteData";
 import Step4Preview from "./components/Step4Preview";
 import AnalyticsShowcase from "./components/AnalyticsShowcase";
+import StationsProvider from "./contexts/StationsProvider";
+import TariffsProvider from "./contexts/TariffsProvider";
 import type { Ride } from "./types/ride";
-import { RidesArraySchema } from "./schemas/ride";
+import { useRideStore } from "./hooks/useRideStore";
+import type { RideChanges } from "./utils/mergeRides";
+import type { BackupRestore } from "./utils/backup";
+import type { Step } from "./utils/dashboardState";
+import { useDashboardState } from "./hooks/useDashboardState";
 
-const STORAGE_KEY = "santander-cycle-rides";
+function App() {
+  const {
+    rides,
+    meta: savedRidesMeta,
+    loading: ridesLoading,
+    loadError: ridesLoadError,
+    saveError: ridesSaveError,
+    storageEstimate,
+    replaceRides,
+    mergeRides,
+    clearSavedRides,
+  } = useRideStore();
+  const [{ step: selectedStep }, updateDashboard] = useDashboardState();
+  const setSelectedStep = (step: Step) => updateDashboard({ step });
 
-type Step = 1 | 2 | 3 | 4;
+  // Let the scraping scripts skip rides that are already saved
+  const latestRideStartTimeMs = useMemo(
+    () =>
+      rides.reduce<number | null>(
+        (latest, ride) =>
+          ride.startTimeMs !== null &&
+          (latest === null || ride.startTimeMs > latest)
+            ? ride.startTimeMs
+            : latest,
+        null
+      ),
+    [rides]
+  );
+  const knownRideIds = useMemo(
+    () =>
+      rides
+        .map((ride) => ride.rideId)
+        .filter((id): id is string => id !== null),
+    [rides]
+  );
 
-function App() {
-  // Load rides from localStorage on initial render
-  const [currentStep, setCurrentStep] = useState<Step>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        // Handle both old format (array) and new format (object with metadata)
-        const rides = Array.isArray(parsed) ? parsed : parsed?.rides;
-        if (rides) {
-          const validationResult = RidesArraySchema.safeParse(rides);
-          if (validationResult.success) {
-            return 4; // Auto-advance to preview if data exists
-          }
-        }
-      } catch {
-        // Invalid stored data, ignore
-      }
-    }
-    return 1;
-  });
-
-  const [rides, setRides] = useState<Ride[]>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        // Handle both old format (array) and new format (object with metadata)
-        const rides = Array.isArray(parsed) ? parsed : parsed?.rides;
-        if (rides) {
-          const validationResult = RidesArraySchema.safeParse(rides);
-          if (validationResult.success) {
-            return validationResult.data;
-          }
-        }
-      } catch {
-        // Invalid stored data, ignore
-      }
-    }
-    return [];
-  });
+  // Until a step is picked, auto-advance to preview if data exists
+  const currentStep: Step = selectedStep ?? (rides.length > 0 ? 4 : 1);
 
   const handleStep1Complete = () => {
-    setCurrentStep(2);
+    setSelectedStep(2);
   };
 
   const handleStep2Complete = () => {
-    setCurrentStep(3);
+    setSelectedStep(3);
+  };
+
+  const handleDataParsed = async (parsedRides: Ride[]) => {
+    try {
+      await replaceRides(parsedRides);
+    } catch {
+      // Save failures are reported through ridesSaveError
+    }
+    setSelectedStep(4);
+  };
+
+  const handleRidesMerged = async (changes: RideChanges) => {
+    try {
+      await mergeRides(changes);
+    } catch {
+      // Save failures are reported through ridesSaveError
+    }
+    setSelectedStep(4);
   };
 
-  const handleDataParsed = (parsedRides: Ride[]) => {
-    setRides(parsedRides);
-    setCurrentStep(4);
+  const handleBackupRestored = async (restore: BackupRestore) => {
+    try {
+      if (restore.mode === "replace") {
+        await replaceRides(restore.rides);
+      } else {
+        await mergeRides(restore.changes);
+      }
+    } catch {
+      // Save failures are reported through ridesSaveError
+    }
+    setSelectedStep(4);
+  };
+
+  const handleClearSavedData = async () => {
+    try {
+      await clearSavedRides();
+    } catch (err) {
+      console.error("Failed to clear saved rides:", err);
+    }
   };
 
   const goToStep = (step: Step) => {
-    setCurrentStep(step);
+    setSelectedStep(step);
   };
 
   return (
@@ -83,7 +116,7 @@ function App() {
         </header>
 
         {/* Analytics Showcase - Show on Step 1 */}
-        {currentStep === 1 && <AnalyticsShowcase />}
+        {currentStep === 1 && !ridesLoading && <AnalyticsShowcase />}
 
         {/* Step Indicator */}
         <div className="mb-8">
@@ -139,18 +172,74 @@ function App() {
           </div>
         </div>
 
+        {ridesLoadError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <h3 className="font-semibold text-red-900 mb-1">
+              Saved rides not loaded
+            </h3>
+            <p className="text-red-800 text-sm">
+              Your saved rides couldn't be read from this browser:{" "}
+              {ridesLoadError}. Anything you paste now may not be kept either.
+            </p>
+          </div>
+        )}
+
+        {ridesSaveError && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+            <h3 className="font-semibold text-amber-900 mb-1">
+              Rides not saved
+            </h3>
+            <p className="text-amber-800 text-sm">
+              Your rides couldn't be saved in this browser ({ridesSaveError}),
+              so you'll need to paste them again next visit.
+            </p>
+          </div>
+        )}
+
         {/* Step Content */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 md:p-8">
-          {currentStep === 1 && (
-            <Step1ScrapeSummaries onComplete={handleStep1Complete} />
-          )}
-          {currentStep === 2 && (
-            <Step2ScrapeDetails onComplete={handleStep2Complete} />
-          )}
-          {currentStep === 3 && (
-            <Step3PasteData onDataParsed={handleDataParsed} />
+          {ridesLoading ? (
+            <div className="text-center py-12">
+              <p className="text-gray-600">Loading your saved rides...</p>
+            </div>
+          ) : (
+            <>
+              {currentStep === 1 && (
+                <Step1ScrapeSummaries
+                  latestRideStartTimeMs={latestRideStartTimeMs}
+                  onComplete={handleStep1Complete}
+                />
+              )}
+              {currentStep === 2 && (
+                <Step2ScrapeDetails
+                  knownRideIds={knownRideIds}
+                  onComplete={handleStep2Complete}
+                />
+              )}
+              {/* Step 3 joins CSV imports to station data and restores
+                  tariffs from backups, so keep one of each provider mounted
+                  across steps 3 and 4 */}
+              {(currentStep === 3 || currentStep === 4) && (
+                <StationsProvider>
+                  <TariffsProvider>
+                    {currentStep === 3 ? (
+                      <Step3PasteData
+                        existingRides={rides}
+                        savedRides={savedRidesMeta}
+                        storageEstimate={storageEstimate}
+                        onDataParsed={handleDataParsed}
+                        onRidesMerged={handleRidesMerged}
+                        onClearSavedData={handleClearSavedData}
+                        onBackupRestored={handleBackupRestored}
+                      />
+                    ) : (
+                      <Step4Preview rides={rides} />
+                    )}
+                  </TariffsProvider>
+                </StationsProvider>
+              )}
+            </>
           )}
-          {currentStep === 4 && <Step4Preview rides={rides} />}
         </div>
 
         {/* Footer */}
@@ -0,0 +1,179 @@
+import { useState, useMemo, useRef } from "react";
+import type { Ride } from "../types/ride";
+import {
+  createBackupFile,
+  diffStationOverrides,
+  getBackupFileName,
+  mergeStationOverrides,
+  mergeTariffs,
+  readBackupFile,
+  tariffsDiffer,
+  type BackupContents,
+  type BackupRestore,
+} from "../utils/backup";
+import { downloadFile } from "../utils/download";
+import {
+  diffRides,
+  getRideChanges,
+  type ConflictResolution,
+} from "../utils/mergeRides";
+import { useStationOverrides } from "../hooks/useStationOverrides";
+import { useTariffsContext } from "../hooks/useTariffsContext";
+import RestoreBackupSummary, { type RestoreMode } from "./RestoreBackupSummary";
+
+interface BackupPanelProps {
+  rides: Ride[];
+  onRestore: (restore: BackupRestore) => void;
+}
+
+export default function BackupPanel({ rides, onRestore }: BackupPanelProps) {
+  const { overrides, replaceOverrides } = useStationOverrides();
+  const {
+    tariffs,
+    loadError: tariffsLoadError,
+    replaceTariffs,
+  } = useTariffsContext();
+  const [backup, setBackup] = useState<BackupContents | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [resolution, setResolution] =
+    useState<ConflictResolution>("keep-existing");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const rideDiff = useMemo(
+    () => (backup ? diffRides(rides, backup.rides) : null),
+    [rides, backup]
+  );
+  const mappingsDiff = useMemo(
+    () =>
+      backup
+        ? diffStationOverrides(overrides, backup.data.stationOverrides)
+        : null,
+    [overrides, backup]
+  );
+
+  const exportBackup = async () => {
+    setError(null);
+    setBusy(true);
+    try {
+      downloadFile(
+        await createBackupFile(rides, overrides, tariffs),
+        getBackupFileName(),
+        "application/json"
+      );
+    } catch (err) {
+      console.error("Failed to create backup:", err);
+      setError(err instanceof Error ? err.message : "Failed to create backup");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openBackup = async (file: File) => {
+    setError(null);
+    setBackup(null);
+    setBusy(true);
+    try {
+      setBackup(await readBackupFile(file));
+      setMode("merge");
+      setResolution("keep-existing");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read backup");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmRestore = () => {
+    if (!backup || !rideDiff) return;
+    const backupOverrides = backup.data.stationOverrides;
+    const backupTariffs = backup.data.tariffs;
+
+    if (mode === "replace") {
+      replaceOverrides(backupOverrides);
+      replaceTariffs(backupTariffs ?? tariffs);
+      onRestore({ mode, rides: backup.rides });
+    } else {
+      replaceOverrides(
+        mergeStationOverrides(overrides, backupOverrides, resolution)
+      );
+      replaceTariffs(mergeTariffs(tariffs, backupTariffs, resolution));
+      onRestore({ mode, changes: getRideChanges(rideDiff, resolution) });
+    }
+    setBackup(null);
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold text-gray-900 mb-1">Backup & Restore</h3>
+        <p className="text-sm text-gray-600">
+          Save your rides, station mappings and tariffs to a single file, or
+          restore them from one - for example on another browser or device.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={exportBackup}
+          disabled={busy || rides.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Export backup
+        </button>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={busy}
+          className="px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg border border-gray-300 transition-colors text-sm font-medium disabled:cursor-not-allowed"
+        >
+          Restore backup
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.gz,application/json,application/gzip"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) openBackup(file);
+            // Allow the same file to be picked again
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {tariffsLoadError && (
+        <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          Your saved tariffs couldn't be read ({tariffsLoadError}), so backups
+          hold the default tariffs. Restoring one keeps a copy of the unreadable
+          tariffs in this browser.
+        </p>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h4 className="font-semibold text-red-900 mb-1">❌ Error:</h4>
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      {backup && rideDiff && mappingsDiff && (
+        <RestoreBackupSummary
+          backup={backup}
+          savedRideCount={rides.length}
+          savedMappingCount={Object.keys(overrides).length}
+          rideDiff={rideDiff}
+          mappingsDiff={mappingsDiff}
+          tariffsDiffer={tariffsDiffer(tariffs, backup.data.tariffs)}
+          mode={mode}
+          onModeChange={setMode}
+          resolution={resolution}
+          onResolutionChange={setResolution}
+          onConfirm={confirmRestore}
+          onCancel={() => setBackup(null)}
+        />
+      )}
+    </div>
+  );
+}
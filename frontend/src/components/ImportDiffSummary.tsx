@@ -0,0 +1,160 @@
+import type {
+  ConflictResolution,
+  RideChange,
+  RideDiff,
+  RideField,
+} from "../utils/mergeRides";
+import { getRideKey } from "../utils/rideKey";
+
+interface ImportDiffSummaryProps {
+  diff: RideDiff;
+  resolution: ConflictResolution;
+  onResolutionChange: (resolution: ConflictResolution) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Only the first few conflicts are listed in full
+const MAX_LISTED_CONFLICTS = 20;
+
+const FIELD_LABELS: Record<RideField, string> = {
+  rideId: "Ride ID",
+  startTimeMs: "Start time",
+  endTimeMs: "End time",
+  startAddress: "Start",
+  endAddress: "End",
+  price: "Price",
+  priceBreakdown: "Price breakdown",
+  paymentMethod: "Payment method",
+};
+
+function describeRide(change: RideChange): string {
+  const { existing } = change;
+  const date =
+    existing.startTimeMs !== null
+      ? new Date(existing.startTimeMs).toLocaleString()
+      : "Unknown date";
+  return `${date} · ${existing.startAddress ?? "Unknown"} → ${
+    existing.endAddress ?? "Unknown"
+  }`;
+}
+
+export default function ImportDiffSummary({
+  diff,
+  resolution,
+  onResolutionChange,
+  onConfirm,
+  onCancel,
+}: ImportDiffSummaryProps) {
+  const changeCount =
+    diff.added.length +
+    diff.updated.length +
+    (resolution === "use-incoming" ? diff.conflicts.length : 0);
+
+  const summary = [
+    { label: "New", count: diff.added.length, className: "text-green-700" },
+    {
+      label: "Updated",
+      count: diff.updated.length,
+      className: "text-blue-700",
+    },
+    {
+      label: "Unchanged",
+      count: diff.unchanged.length,
+      className: "text-gray-700",
+    },
+    {
+      label: "Conflicting",
+      count: diff.conflicts.length,
+      className: "text-amber-700",
+    },
+  ];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <h3 className="text-xl font-semibold text-gray-900 mb-4">
+        Review Import
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        {summary.map(({ label, count, className }) => (
+          <div
+            key={label}
+            className="bg-gray-50 border border-gray-200 rounded-lg p-3"
+          >
+            <div className="text-sm text-gray-600">{label}</div>
+            <div className={`text-2xl font-bold ${className}`}>{count}</div>
+          </div>
+        ))}
+      </div>
+
+      {diff.updated.length > 0 && (
+        <p className="text-sm text-gray-600 mb-4">
+          Updated rides are saved rides that the pasted data fills in, such as
+          rides that now have price details.
+        </p>
+      )}
+
+      {diff.conflicts.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-4">
+          <h4 className="font-semibold text-amber-900 mb-2">
+            {diff.conflicts.length} ride
+            {diff.conflicts.length !== 1 ? "s differ" : " differs"} from your
+            saved data
+          </h4>
+          <ul className="text-sm text-amber-800 space-y-1 mb-3 max-h-48 overflow-y-auto">
+            {diff.conflicts.slice(0, MAX_LISTED_CONFLICTS).map((change) => (
+              <li key={getRideKey(change.existing)}>
+                {describeRide(change)}{" "}
+                <span className="text-amber-600">
+                  ({change.fields.map((f) => FIELD_LABELS[f]).join(", ")})
+                </span>
+              </li>
+            ))}
+            {diff.conflicts.length > MAX_LISTED_CONFLICTS && (
+              <li className="text-amber-600">
+                …and {diff.conflicts.length - MAX_LISTED_CONFLICTS} more
+              </li>
+            )}
+          </ul>
+          <div className="flex flex-wrap gap-4 text-sm text-amber-900">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={resolution === "keep-existing"}
+                onChange={() => onResolutionChange("keep-existing")}
+              />
+              Keep saved values
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={resolution === "use-incoming"}
+                onChange={() => onResolutionChange("use-incoming")}
+              />
+              Use pasted values
+            </label>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={onConfirm}
+          disabled={changeCount === 0}
+          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {changeCount > 0
+            ? `Import ${changeCount} change${changeCount !== 1 ? "s" : ""}`
+            : "Nothing to import"}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 bg-gray-100 hover:bg-gray-200 rounded-lg border border-gray-300 transition-colors font-medium"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import type { BackupContents, StationOverridesDiff } from "../utils/backup";
+import type { ConflictResolution, RideDiff } from "../utils/mergeRides";
+
+export type RestoreMode = "merge" | "replace";
+
+interface RestoreBackupSummaryProps {
+  backup: BackupContents;
+  savedRideCount: number;
+  savedMappingCount: number;
+  rideDiff: RideDiff;
+  mappingsDiff: StationOverridesDiff;
+  tariffsDiffer: boolean; // backup tariffs differ from the saved ones
+  mode: RestoreMode;
+  onModeChange: (mode: RestoreMode) => void;
+  resolution: ConflictResolution;
+  onResolutionChange: (resolution: ConflictResolution) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count !== 1 ? "s" : ""}`;
+
+export default function RestoreBackupSummary({
+  backup,
+  savedRideCount,
+  savedMappingCount,
+  rideDiff,
+  mappingsDiff,
+  tariffsDiffer,
+  mode,
+  onModeChange,
+  resolution,
+  onResolutionChange,
+  onConfirm,
+  onCancel,
+}: RestoreBackupSummaryProps) {
+  const backupMappingCount = Object.keys(backup.data.stationOverrides).length;
+  const hasConflicts =
+    rideDiff.conflicts.length > 0 || mappingsDiff.changed > 0 || tariffsDiffer;
+
+  const summary =
+    mode === "replace"
+      ? [
+          {
+            label: "Saved rides removed",
+            count: savedRideCount,
+            className: "text-red-700",
+          },
+          {
+            label: "Rides restored",
+            count: backup.rides.length,
+            className: "text-green-700",
+          },
+          {
+            label: "Saved mappings removed",
+            count: savedMappingCount,
+            className: "text-red-700",
+          },
+          {
+            label: "Mappings restored",
+            count: backupMappingCount,
+            className: "text-green-700",
+          },
+        ]
+      : [
+          {
+            label: "New rides",
+            count: rideDiff.added.length,
+            className: "text-green-700",
+          },
+          {
+            label: "Updated rides",
+            count: rideDiff.updated.length,
+            className: "text-blue-700",
+          },
+          {
+            label: "Conflicting rides",
+            count: rideDiff.conflicts.length,
+            className: "text-amber-700",
+          },
+          {
+            label: "New mappings",
+            count: mappingsDiff.added,
+            className: "text-green-700",
+          },
+        ];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <h3 className="text-xl font-semibold text-gray-900 mb-2">
+        Restore Backup
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Backup from {new Date(backup.createdAt).toLocaleString()} with{" "}
+        {plural(backup.rides.length, "ride")} and{" "}
+        {plural(backupMappingCount, "station mapping")}
+        {backup.data.tariffs &&
+          `, plus ${plural(backup.data.tariffs.length, "tariff rule set")}`}
+        .
+        {backup.rejectedRideCount > 0 &&
+          ` ${plural(
+            backup.rejectedRideCount,
+            "invalid ride"
+          )} in the backup will be skipped.`}
+      </p>
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700 mb-4">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={mode === "merge"}
+            onChange={() => onModeChange("merge")}
+          />
+          <span>
+            <strong>Merge</strong> it with your saved data
+          </span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={mode === "replace"}
+            onChange={() => onModeChange("replace")}
+          />
+          <span>
+            <strong>Replace</strong> your saved data
+          </span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        {summary.map(({ label, count, className }) => (
+          <div
+            key={label}
+            className="bg-gray-50 border border-gray-200 rounded-lg p-3"
+          >
+            <div className="text-sm text-gray-600">{label}</div>
+            <div className={`text-2xl font-bold ${className}`}>{count}</div>
+          </div>
+        ))}
+      </div>
+
+      {mode === "merge" && hasConflicts && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-4">
+          <h4 className="font-semibold text-amber-900 mb-2">
+            {plural(rideDiff.conflicts.length, "ride")} and{" "}
+            {plural(mappingsDiff.changed, "station mapping")} differ from your
+            saved data
+          </h4>
+          {tariffsDiffer && (
+            <p className="text-sm text-amber-800 mb-2">
+              The backup's tariffs differ from your saved tariffs too.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-4 text-sm text-amber-900">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={resolution === "keep-existing"}
+                onChange={() => onResolutionChange("keep-existing")}
+              />
+              Keep saved values
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={resolution === "use-incoming"}
+                onChange={() => onResolutionChange("use-incoming")}
+              />
+              Use backup values
+            </label>
+          </div>
+        </div>
+      )}
+
+      {mode === "replace" && (
+        <p className="text-sm text-red-700 mb-4">
+          Anything saved that isn't in the backup will be permanently deleted.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={onConfirm}
+          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+        >
+          {mode === "replace" ? "Replace and restore" : "Merge backup"}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 bg-gray-100 hover:bg-gray-200 rounded-lg border border-gray-300 transition-colors font-medium"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState, useRef } from "react";
+
+interface RideFileDropZoneProps {
+  onFileSelected: (file: File) => void;
+  disabled?: boolean;
+  statusMessage?: string | null; // shown in place of the prompt
+}
+
+export default function RideFileDropZone({
+  onFileSelected,
+  disabled = false,
+  statusMessage = null,
+}: RideFileDropZoneProps) {
+  const [dragging, setDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !disabled) onFileSelected(file);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (!disabled) setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      onClick={() => !disabled && inputRef.current?.click()}
+      role="button"
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if ((e.key === "Enter" || e.key === " ") && !disabled) {
+          e.preventDefault();
+          inputRef.current?.click();
+        }
+      }}
+      className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+        disabled
+          ? "border-gray-200 bg-gray-50 cursor-wait"
+          : dragging
+          ? "border-blue-500 bg-blue-50 cursor-copy"
+          : "border-gray-300 hover:border-blue-400 cursor-pointer"
+      }`}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.csv,.gz,application/json,text/csv,application/gzip"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onFileSelected(file);
+          // Allow the same file to be picked again
+          e.target.value = "";
+        }}
+      />
+      <p className="font-medium text-gray-700">
+        {statusMessage ?? "Drop a ride data file here"}
+      </p>
+      <p className="text-sm text-gray-500 mt-1">
+        or click to choose one. Accepts the Script B array, a{" "}
+        <code>window.__rideDetails</code> object, a saved export or a TfL usage
+        data CSV - plain or gzip-compressed.
+      </p>
+    </div>
+  );
+}
@@ -1,28 +1,35 @@
 import { useState, useEffect } from "react";
 
 interface Step1ScrapeSummariesProps {
+  latestRideStartTimeMs: number | null; // newest saved ride, if any
   onComplete: () => void;
 }
 
 export default function Step1ScrapeSummaries({
+  latestRideStartTimeMs,
   onComplete,
 }: Step1ScrapeSummariesProps) {
   const [copied, setCopied] = useState(false);
   const [stepComplete, setStepComplete] = useState(false);
   const [estimatedRideCount, setEstimatedRideCount] = useState<string>("");
   const [scriptCode, setScriptCode] = useState<string>("Loading script...");
+  const [onlyNewRides, setOnlyNewRides] = useState(true);
+  const incrementalStartTimeMs = onlyNewRides ? latestRideStartTimeMs : null;
 
   useEffect(() => {
     // Load the script file dynamically
     fetch(`${import.meta.env.BASE_URL}scripts/fetch-ride-summaries.js`)
       .then((res) => res.text())
       .then((text) => {
-        // Inject the estimated ride count at the beginning (before the IIFE)
+        // Inject the estimated ride count and newest saved ride at the
+        // beginning (before the IIFE)
         const injectedCode = text.replace(
           /^\(async \(\) => \{/,
           `(async () => {
   // Set estimated ride count for time estimation
   window.__estimatedRideCount = ${estimatedRideCount || "null"};
+  // Stop once we reach rides that are already saved
+  window.__latestKnownStartTimeMs = ${incrementalStartTimeMs ?? "null"};
 `
         );
         setScriptCode(injectedCode);
@@ -31,7 +38,7 @@ export default function Step1ScrapeSummaries({
         console.error("Failed to load script:", err);
         setScriptCode("// Error loading script file. Please refresh the page.");
       });
-  }, [estimatedRideCount]);
+  }, [estimatedRideCount, incrementalStartTimeMs]);
 
   const copyToClipboard = async () => {
     try {
@@ -138,6 +145,30 @@ export default function Step1ScrapeSummaries({
         </ol>
       </div>
 
+      {latestRideStartTimeMs !== null && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={onlyNewRides}
+              onChange={(e) => setOnlyNewRides(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-semibold text-green-900">
+                Only fetch new rides
+              </span>
+              <span className="block text-sm text-green-800">
+                You already have rides saved up to{" "}
+                {new Date(latestRideStartTimeMs).toLocaleString()}. The script
+                will stop as soon as it reaches them, so a refresh only takes a
+                few seconds. Untick this to fetch your whole history again.
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
         <label className="block text-sm font-medium text-gray-700 mb-2">
           Your Total Ride Count (from profile page - optional):
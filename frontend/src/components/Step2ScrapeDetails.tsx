@@ -1,28 +1,39 @@
 import { useState, useEffect } from "react";
 
 interface Step2ScrapeDetailsProps {
+  knownRideIds: string[]; // rides already saved in the app
   onComplete: () => void;
 }
 
 export default function Step2ScrapeDetails({
+  knownRideIds,
   onComplete,
 }: Step2ScrapeDetailsProps) {
   const [copied, setCopied] = useState(false);
   const [stepComplete, setStepComplete] = useState(false);
   const [scriptCode, setScriptCode] = useState<string>("Loading script...");
+  const [skipKnownRides, setSkipKnownRides] = useState(true);
 
   useEffect(() => {
     // Load the script file dynamically
     fetch(`${import.meta.env.BASE_URL}scripts/fetch-ride-details.js`)
       .then((res) => res.text())
       .then((text) => {
-        setScriptCode(text);
+        // Inject the saved ride IDs at the beginning (before the IIFE)
+        const injectedCode = text.replace(
+          /^\(async \(\) => \{/,
+          `(async () => {
+  // Skip detail fetches for rides that are already saved
+  window.__knownRideIds = ${JSON.stringify(skipKnownRides ? knownRideIds : [])};
+`
+        );
+        setScriptCode(injectedCode);
       })
       .catch((err) => {
         console.error("Failed to load script:", err);
         setScriptCode("// Error loading script file. Please refresh the page.");
       });
-  }, []);
+  }, [knownRideIds, skipKnownRides]);
 
   const copyToClipboard = async () => {
     try {
@@ -45,6 +56,30 @@ export default function Step2ScrapeDetails({
         </p>
       </div>
 
+      {knownRideIds.length > 0 && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={skipKnownRides}
+              onChange={(e) => setSkipKnownRides(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-semibold text-green-900">
+                Skip rides you've already saved
+              </span>
+              <span className="block text-sm text-green-800">
+                Details are only fetched for rides that aren't among your{" "}
+                {knownRideIds.length} saved rides. Paste the result in Step 3
+                with <strong>Merge</strong> selected to add them to your
+                history.
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h3 className="font-semibold text-blue-900 mb-2">📋 Instructions:</h3>
         <ol className="list-decimal list-inside space-y-2 text-blue-800">
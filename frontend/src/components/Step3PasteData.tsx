@@ -1,146 +1,233 @@
-import { useState } from "react";
+import { useState, useEffect, useEffectEvent } from "react";
 import { z } from "zod";
-import { RidesArraySchema } from "../schemas/ride";
 import type { Ride } from "../types/ride";
+import type { RideStoreMeta, StorageEstimate } from "../utils/rideStore";
+import type { BackupRestore } from "../utils/backup";
+import {
+  diffRides,
+  getRideChanges,
+  type ConflictResolution,
+  type RideChanges,
+  type RideDiff,
+} from "../utils/mergeRides";
+import {
+  detectRideFormat,
+  readRideFile,
+  RIDE_FORMAT_LABELS,
+  type DetectedRideData,
+} from "../utils/rideImport";
+import {
+  isCsvFile,
+  readTflCsvFile,
+  type TflCsvProgress,
+} from "../utils/tflCsv";
+import {
+  validateRides,
+  type RideValidationReport,
+} from "../utils/rideValidation";
+import { useStationsContext } from "../hooks/useStationsContext";
+import ImportDiffSummary from "./ImportDiffSummary";
+import RideFileDropZone from "./RideFileDropZone";
+import ValidationReport from "./ValidationReport";
+import BackupPanel from "./BackupPanel";
 
-const STORAGE_KEY = "santander-cycle-rides";
-
-interface StoredData {
-  rides: Ride[];
-  savedAt: number; // timestamp
-  rideCount: number;
-}
+type ImportMode = "merge" | "replace";
 
 interface Step3PasteDataProps {
+  existingRides: Ride[];
+  savedRides: RideStoreMeta | null;
+  storageEstimate: StorageEstimate | null;
   onDataParsed: (rides: Ride[]) => void;
+  onRidesMerged: (changes: RideChanges) => void;
+  onClearSavedData: () => void;
+  onBackupRestored: (restore: BackupRestore) => void;
 }
 
-export default function Step3PasteData({ onDataParsed }: Step3PasteDataProps) {
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+export default function Step3PasteData({
+  existingRides,
+  savedRides,
+  storageEstimate,
+  onDataParsed,
+  onRidesMerged,
+  onClearSavedData,
+  onBackupRestored,
+}: Step3PasteDataProps) {
   const [jsonInput, setJsonInput] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [rideCount, setRideCount] = useState<number | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [pendingDiff, setPendingDiff] = useState<RideDiff | null>(null);
+  const [validationReport, setValidationReport] =
+    useState<RideValidationReport | null>(null);
+  const [importSource, setImportSource] = useState<string | null>(null);
+  const [readingFile, setReadingFile] = useState(false);
+  // A TfL CSV dropped before stations loaded, imported once they're ready
+  const [pendingCsvFile, setPendingCsvFile] = useState<File | null>(null);
+  const [csvProgress, setCsvProgress] = useState<TflCsvProgress | null>(null);
+  const [importNote, setImportNote] = useState<string | null>(null);
+  const { index: stationIndex, loading: stationsLoading } =
+    useStationsContext();
+  const [conflictResolution, setConflictResolution] =
+    useState<ConflictResolution>("keep-existing");
 
-  // Check for existing stored data on mount and get metadata
-  const [storedDataInfo, setStoredDataInfo] = useState<{
-    savedAt: number;
-    rideCount: number;
-  } | null>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        // Handle both old format (array) and new format (object with metadata)
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          // Old format - migrate it
-          return {
-            savedAt: Date.now(),
-            rideCount: parsed.length,
-          };
-        } else if (
-          parsed &&
-          typeof parsed === "object" &&
-          Array.isArray(parsed.rides)
-        ) {
-          // New format
-          return {
-            savedAt: parsed.savedAt || Date.now(),
-            rideCount: parsed.rideCount || parsed.rides.length,
-          };
-        }
-      } catch {
-        return null;
-      }
-    }
-    return null;
-  });
-
-  const saveToLocalStorage = (rides: Ride[]) => {
-    try {
-      const dataToStore: StoredData = {
-        rides,
-        savedAt: Date.now(),
-        rideCount: rides.length,
-      };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(dataToStore));
-      setStoredDataInfo({
-        savedAt: dataToStore.savedAt,
-        rideCount: dataToStore.rideCount,
-      });
-    } catch (err) {
-      console.error("Failed to save to localStorage:", err);
-    }
-  };
-
-  const clearLocalStorage = () => {
-    localStorage.removeItem(STORAGE_KEY);
-    setStoredDataInfo(null);
+  const clearSavedData = () => {
+    onClearSavedData();
     setJsonInput("");
     setSuccess(false);
     setRideCount(null);
     setError(null);
+    setPendingDiff(null);
+    setValidationReport(null);
   };
 
-  const validateAndParse = () => {
+  const confirmMerge = () => {
+    if (!pendingDiff) return;
+    onRidesMerged(getRideChanges(pendingDiff, conflictResolution));
+    setPendingDiff(null);
+  };
+
+  const resetResult = () => {
     setError(null);
     setSuccess(false);
     setRideCount(null);
+    setPendingDiff(null);
+    setValidationReport(null);
+    setImportSource(null);
+    setImportNote(null);
+  };
 
-    if (!jsonInput.trim()) {
-      setError("Please paste your JSON data");
+  // Merge or replace the saved rides with rides that passed validation
+  const importValidRides = (rides: Ride[]) => {
+    // Show what would change before merging into the saved rides
+    if (importMode === "merge" && existingRides.length > 0) {
+      setPendingDiff(diffRides(existingRides, rides));
       return;
     }
 
-    try {
-      const parsed = JSON.parse(jsonInput);
-
-      // Validate directly with Zod schema
-      const validationResult = RidesArraySchema.safeParse(parsed);
-
-      if (!validationResult.success) {
-        const issues = validationResult.error.issues;
-        const firstError = issues[0];
-        const errorMessage = firstError
-          ? `Validation error at ride ${firstError.path.join(".")}: ${
-              firstError.message
-            }`
-          : "Invalid ride data structure";
-        setError(errorMessage);
-        return;
-      }
+    setRideCount(rides.length);
+    setSuccess(true);
+    onDataParsed(rides);
+  };
+
+  // Validate ride data in any supported format and import it. If some rides
+  // fail validation, show a report so the valid ones can still be imported.
+  const importRideData = (
+    { format, rides }: DetectedRideData,
+    source: string
+  ) => {
+    const report = validateRides(rides);
+    setImportSource(`${source} (${RIDE_FORMAT_LABELS[format]})`);
+
+    if (report.rejected.length > 0) {
+      setValidationReport(report);
+      return;
+    }
+    importValidRides(report.validRides);
+  };
+
+  const confirmValidRides = () => {
+    if (!validationReport) return;
+    const { validRides, rejected } = validationReport;
+    const skipped = `${rejected.length} invalid ride${
+      rejected.length !== 1 ? "s were" : " was"
+    } skipped.`;
+    setImportNote((note) => (note ? `${note} ${skipped}` : skipped));
+    setValidationReport(null);
+    importValidRides(validRides);
+  };
 
-      const typedRides = validationResult.data as Ride[];
+  const reportImportError = (err: unknown) => {
+    if (err instanceof SyntaxError) {
+      setError(`Invalid JSON: ${err.message}`);
+    } else if (err instanceof z.ZodError) {
+      const firstError = err.issues[0];
+      setError(
+        `Validation error: ${firstError?.message || "Invalid data structure"}`
+      );
+    } else {
+      setError(
+        `Error parsing data: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`
+      );
+    }
+  };
 
-      // Save to localStorage
-      saveToLocalStorage(typedRides);
+  const validateAndParse = () => {
+    resetResult();
+
+    if (!jsonInput.trim()) {
+      setError("Please paste your JSON data");
+      return;
+    }
 
-      setRideCount(typedRides.length);
-      setSuccess(true);
-      onDataParsed(typedRides);
+    try {
+      importRideData(detectRideFormat(JSON.parse(jsonInput)), "Pasted data");
     } catch (err) {
-      if (err instanceof SyntaxError) {
-        setError(`Invalid JSON: ${err.message}`);
-      } else if (err instanceof z.ZodError) {
-        const firstError = err.issues[0];
-        setError(
-          `Validation error: ${firstError?.message || "Invalid data structure"}`
+      reportImportError(err);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    resetResult();
+    setPendingCsvFile(null);
+    // Only CSV import needs the station index to resolve addresses
+    if (isCsvFile(file) && stationsLoading) {
+      setPendingCsvFile(file);
+      return;
+    }
+    setReadingFile(true);
+    try {
+      if (isCsvFile(file)) {
+        const { rides, skippedRows } = await readTflCsvFile(
+          file,
+          stationIndex,
+          setCsvProgress
         );
+        if (skippedRows > 0) {
+          setImportNote(
+            `${skippedRows} malformed row${
+              skippedRows !== 1 ? "s were" : " was"
+            } skipped.`
+          );
+        }
+        importRideData({ format: "tfl-csv", rides }, file.name);
       } else {
-        setError(
-          `Error parsing data: ${
-            err instanceof Error ? err.message : "Unknown error"
-          }`
-        );
+        importRideData(await readRideFile(file), file.name);
       }
+    } catch (err) {
+      reportImportError(err);
+    } finally {
+      setReadingFile(false);
+      setCsvProgress(null);
     }
   };
 
+  const importPendingCsvFile = useEffectEvent(() => {
+    if (pendingCsvFile) handleFile(pendingCsvFile);
+  });
+
+  useEffect(() => {
+    if (!stationsLoading) importPendingCsvFile();
+  }, [stationsLoading]);
+
   return (
     <div className="space-y-6">
       <div>
         <h2 className="text-2xl font-bold mb-2">Step 3: Paste Your Data</h2>
         <p className="text-gray-600">
-          Paste the JSON array you copied from the console.
+          Paste the JSON array you copied from the console, or load a file
+          you've saved.
         </p>
       </div>
 
@@ -153,10 +240,15 @@ export default function Step3PasteData({ onDataParsed }: Step3PasteDataProps) {
           </li>
           <li>Paste the complete array into the textarea below</li>
           <li>Click "Parse & Validate" to check your data</li>
+          <li>
+            Alternatively, drop a saved <code>.json</code> or{" "}
+            <code>.json.gz</code> file into the box below - it's checked
+            automatically
+          </li>
         </ol>
       </div>
 
-      {storedDataInfo && (
+      {savedRides && (
         <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
           <div className="flex items-start gap-3">
             <svg
@@ -180,11 +272,11 @@ export default function Step3PasteData({ onDataParsed }: Step3PasteDataProps) {
               <div className="space-y-2 text-amber-800 text-sm mb-4">
                 <div className="bg-amber-100 rounded p-3 border border-amber-300">
                   <p className="font-medium text-amber-900 mb-2">
-                    ⚠️ Important: Local Storage Only
+                    ⚠️ Important: Browser Storage Only
                   </p>
                   <p className="mb-2">
                     Your ride data is saved <strong>only on this device</strong>{" "}
-                    in your browser's local storage. This data is{" "}
+                    in your browser's storage. This data is{" "}
                     <strong>not synced</strong> to any server or cloud service.
                   </p>
                   <p className="font-medium text-amber-900">
@@ -196,23 +288,53 @@ export default function Step3PasteData({ onDataParsed }: Step3PasteDataProps) {
                   <div>
                     <span className="font-medium">Saved rides:</span>{" "}
                     <span className="font-semibold">
-                      {storedDataInfo.rideCount}
+                      {savedRides.rideCount}
                     </span>
                   </div>
                   <div>
                     <span className="font-medium">Last saved:</span>{" "}
                     <span className="font-semibold">
-                      {new Date(storedDataInfo.savedAt).toLocaleString()}
+                      {new Date(savedRides.savedAt).toLocaleString()}
                     </span>
                   </div>
+                  {storageEstimate && (
+                    <div>
+                      <span className="font-medium">Storage used:</span>{" "}
+                      <span className="font-semibold">
+                        {formatBytes(storageEstimate.usage)} of{" "}
+                        {formatBytes(storageEstimate.quota)}
+                      </span>
+                    </div>
+                  )}
+                </div>
+                <div className="text-amber-700 pt-2 border-t border-amber-300">
+                  <p className="mb-2">When you paste new data:</p>
+                  <div className="flex flex-wrap gap-4">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={importMode === "merge"}
+                        onChange={() => setImportMode("merge")}
+                      />
+                      <span>
+                        <strong>Merge</strong> it with your saved rides
+                      </span>
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={importMode === "replace"}
+                        onChange={() => setImportMode("replace")}
+                      />
+                      <span>
+                        <strong>Overwrite</strong> your saved rides
+                      </span>
+                    </label>
+                  </div>
                 </div>
-                <p className="text-amber-700 pt-2 border-t border-amber-300">
-                  If you re-scrape and paste new data, it will{" "}
-                  <strong>overwrite</strong> your existing saved data.
-                </p>
               </div>
               <button
-                onClick={clearLocalStorage}
+                onClick={clearSavedData}
                 className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors text-sm font-medium"
               >
                 Clear Saved Data
@@ -222,9 +344,43 @@ export default function Step3PasteData({ onDataParsed }: Step3PasteDataProps) {
         </div>
       )}
 
+      <BackupPanel rides={existingRides} onRestore={onBackupRestored} />
+
+      <RideFileDropZone
+        onFileSelected={handleFile}
+        disabled={readingFile}
+        statusMessage={
+          readingFile
+            ? "Reading file..."
+            : pendingCsvFile
+            ? `Loading stations... ${pendingCsvFile.name} will be imported once they're ready`
+            : null
+        }
+      />
+
+      {csvProgress && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-700">
+          <p className="mb-2">
+            Reading CSV… {csvProgress.rows.toLocaleString()} rides so far
+          </p>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{
+                width: `${Math.round(
+                  (csvProgress.bytesRead /
+                    Math.max(csvProgress.totalBytes, 1)) *
+                    100
+                )}%`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
-          JSON Data:
+          Or paste JSON Data:
         </label>
         <textarea
           value={jsonInput}
@@ -232,6 +388,8 @@ export default function Step3PasteData({ onDataParsed }: Step3PasteDataProps) {
             setJsonInput(e.target.value);
             setError(null);
             setSuccess(false);
+            setPendingDiff(null);
+            setValidationReport(null);
           }}
           placeholder="Paste your JSON array here..."
           className="w-full h-64 px-4 py-3 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -250,15 +408,40 @@ export default function Step3PasteData({ onDataParsed }: Step3PasteDataProps) {
           <h3 className="font-semibold text-green-900 mb-1">✅ Success!</h3>
           <p className="text-green-800 mb-2">
             Parsed <strong>{rideCount}</strong> ride{rideCount !== 1 ? "s" : ""}{" "}
-            successfully.
+            successfully{importSource && ` from ${importSource}`}.
+            {importNote && ` ${importNote}`}
           </p>
           <p className="text-green-700 text-sm">
-            Your data has been saved to your browser's local storage and will be
-            available next time you visit.
+            Your data has been saved in your browser and will be available next
+            time you visit.
           </p>
         </div>
       )}
 
+      {(pendingDiff || validationReport) && importSource && (
+        <p className="text-sm text-gray-600">
+          Importing from {importSource}.{importNote && ` ${importNote}`}
+        </p>
+      )}
+
+      {validationReport && (
+        <ValidationReport
+          report={validationReport}
+          onImportValid={confirmValidRides}
+          onCancel={() => setValidationReport(null)}
+        />
+      )}
+
+      {pendingDiff && (
+        <ImportDiffSummary
+          diff={pendingDiff}
+          resolution={conflictResolution}
+          onResolutionChange={setConflictResolution}
+          onConfirm={confirmMerge}
+          onCancel={() => setPendingDiff(null)}
+        />
+      )}
+
       <button
         onClick={validateAndParse}
         className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
@@ -5,10 +5,31 @@ import JourneyTimeHistogram from "./analytics/JourneyTimeHistogram";
 import TimePatternChart from "./analytics/TimePatternChart";
 import RidesOverTimeHistogram from "./analytics/RidesOverTimeHistogram";
 import StationsTable from "./analytics/StationsTable";
-import RoutesTable, { type RouteStats } from "./analytics/RoutesTable";
+import RoutesTable from "./analytics/RoutesTable";
 import RoutesMap from "./analytics/RoutesMap";
 import VisitedStationsMap from "./analytics/VisitedStationsMap";
-import { useStations } from "../hooks/useStations";
+import { useStationsContext } from "../hooks/useStationsContext";
+import { useStationOverrides } from "../hooks/useStationOverrides";
+import { useRideAnalytics } from "../hooks/useRideAnalytics";
+import StationMatchReview from "./analytics/StationMatchReview";
+import AnalysisProgress from "./analytics/AnalysisProgress";
+import ExportButtons from "./analytics/ExportButtons";
+import ShareCardGenerator from "./analytics/ShareCardGenerator";
+import YearInReview from "./analytics/YearInReview";
+import FilterBar from "./analytics/FilterBar";
+import BrushBreadcrumb from "./analytics/BrushBreadcrumb";
+import RideLog from "./analytics/RideLog";
+import SpendingPanel from "./analytics/SpendingPanel";
+import CostSimulator from "./analytics/CostSimulator";
+import { getRidesExportTable } from "../utils/tableExport";
+import { useFilteredAnalytics } from "../hooks/useFilteredAnalytics";
+import { useDashboardState } from "../hooks/useDashboardState";
+import {
+  withBrush,
+  withoutBrush,
+  type Brush,
+  type BrushKind,
+} from "../utils/brushes";
 
 interface Step4PreviewProps {
   rides: Ride[];
@@ -19,25 +40,83 @@ export default function Step4Preview({ rides }: Step4PreviewProps) {
     stations,
     loading: stationsLoading,
     error: stationsError,
-  } = useStations();
-  const [selectedRoutes, setSelectedRoutes] = useState<Set<string>>(new Set());
-  const [allRoutes, setAllRoutes] = useState<RouteStats[]>([]);
+    source: stationsSource,
+    updatedAt: stationsUpdatedAt,
+    refresh: refreshStations,
+  } = useStationsContext();
+  const { overrides, pinStation, unpinStation } = useStationOverrides();
+  const {
+    stationMatches,
+    enrichedRides,
+    stats,
+    stationStats,
+    routeStats,
+    progress: analyticsProgress,
+    loading: analyticsLoading,
+    error: analyticsError,
+  } = useRideAnalytics(rides, stations, overrides);
+  // View settings live in the URL, see useDashboardState
+  const [dashboard, updateDashboard] = useDashboardState();
+  const { filters, brushes } = dashboard;
+  const filtered = useFilteredAnalytics(
+    { enrichedRides, stats, stationStats, routeStats },
+    stations,
+    filters,
+    brushes
+  );
   const [selectedStations, setSelectedStations] = useState<Set<string>>(
     new Set()
   );
 
-  // Handle routes calculated - just store them, don't auto-select
-  const handleRoutesCalculated = (routes: RouteStats[]) => {
-    setAllRoutes(routes);
+  // Routes are all selected unless the URL lists a subset
+  const allRouteKeys = useMemo(
+    () =>
+      (filtered.routeStats ?? []).map(
+        (route) => `${route.startStation.id}-${route.endStation.id}`
+      ),
+    [filtered.routeStats]
+  );
+  const selectedRoutes = useMemo(
+    () => new Set(dashboard.selectedRoutes ?? allRouteKeys),
+    [dashboard.selectedRoutes, allRouteKeys]
+  );
+  const setSelectedRoutes = (routes: Set<string>) => {
+    const isEveryRoute =
+      routes.size === allRouteKeys.length &&
+      allRouteKeys.every((key) => routes.has(key));
+    updateDashboard({ selectedRoutes: isEveryRoute ? null : [...routes] });
   };
 
   // Filter routes based on selection
   const selectedRoutesData = useMemo(() => {
-    return allRoutes.filter((route) => {
+    return (filtered.routeStats ?? []).filter((route) => {
       const routeKey = `${route.startStation.id}-${route.endStation.id}`;
       return selectedRoutes.has(routeKey);
     });
-  }, [allRoutes, selectedRoutes]);
+  }, [filtered.routeStats, selectedRoutes]);
+
+  // Every station ridden from or to, so picking one doesn't hide the others
+  const filterStations = useMemo(
+    () =>
+      (stationStats ?? [])
+        .map((s) => s.station)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [stationStats]
+  );
+
+  // Each panel owns one brush: a new one replaces it and null clears it
+  const updateBrush = (kind: BrushKind, brush: Brush | null) => {
+    updateDashboard({
+      brushes: brush ? withBrush(brushes, brush) : withoutBrush(brushes, kind),
+    });
+  };
+
+  const getBrush = <K extends BrushKind>(kind: K) =>
+    brushes.find((brush): brush is Extract<Brush, { kind: K }> => {
+      return brush.kind === kind;
+    }) ?? null;
+
+  const stationBrush = getBrush("station");
 
   if (rides.length === 0) {
     return (
@@ -51,22 +130,135 @@ export default function Step4Preview({ rides }: Step4PreviewProps) {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold mb-2">Step 4: Analysis</h2>
-        <p className="text-gray-600">
-          Your ride data has been loaded. Here's all the good stuff:
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold mb-2">Step 4: Analysis</h2>
+          <p className="text-gray-600">
+            Your ride data has been loaded. Here's all the good stuff:
+          </p>
+        </div>
+        <ExportButtons
+          label="Export all rides:"
+          getTable={() => getRidesExportTable(enrichedRides ?? [])}
+          disabled={!enrichedRides}
+        />
       </div>
 
-      <StatsCards rides={rides} />
+      {stationsSource && (
+        <div
+          className={`flex flex-wrap items-center justify-between gap-2 text-sm ${
+            stationsSource === "live"
+              ? "text-gray-500"
+              : "bg-amber-50 border border-amber-200 rounded-lg p-3 text-amber-800"
+          }`}
+        >
+          <p>
+            {stationsSource !== "live" &&
+              "Couldn't reach the TfL station feed, so a saved copy is being used. "}
+            Stations as of{" "}
+            {stationsUpdatedAt
+              ? new Date(stationsUpdatedAt).toLocaleString()
+              : "an unknown date"}
+            {stationsSource === "cache" && " (cached from your last visit)"}
+            {stationsSource === "snapshot" && " (bundled snapshot)"}.
+          </p>
+          <button
+            onClick={refreshStations}
+            disabled={stationsLoading}
+            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {stationsLoading ? "Refreshing…" : "Refresh stations"}
+          </button>
+        </div>
+      )}
+
+      {analyticsLoading && (
+        <AnalysisProgress
+          progress={analyticsProgress}
+          totalRides={rides.length}
+        />
+      )}
+
+      {analyticsError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h3 className="font-semibold text-red-900 mb-2">Analysis</h3>
+          <p className="text-red-600">
+            Error analysing rides: {analyticsError}
+          </p>
+        </div>
+      )}
+
+      {enrichedRides && (
+        <FilterBar
+          filters={filters}
+          onChange={(filters) => updateDashboard({ filters })}
+          stations={filterStations}
+          matchingRides={filtered.rides?.length ?? 0}
+          totalRides={enrichedRides.length}
+        />
+      )}
+
+      <BrushBreadcrumb
+        brushes={brushes}
+        onRemove={(kind) => updateBrush(kind, null)}
+        onClear={() => updateDashboard({ brushes: [] })}
+      />
 
-      <JourneyTimeHistogram rides={rides} />
+      {filtered.rides?.length === 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-amber-800">
+          No rides match these filters and selections.
+        </div>
+      )}
 
-      <TimePatternChart rides={rides} />
+      {filtered.stats && <StatsCards stats={filtered.stats} />}
 
-      <RidesOverTimeHistogram rides={rides} />
+      {stats && stationStats && (
+        <ShareCardGenerator stats={stats} stationStats={stationStats} />
+      )}
 
-      {stationsLoading ? (
+      {enrichedRides && (
+        <YearInReview rides={enrichedRides} stations={stations} />
+      )}
+
+      {filtered.rides && (
+        <>
+          <JourneyTimeHistogram
+            rides={filtered.ridesExceptBrush.duration ?? []}
+            brush={getBrush("duration")}
+            onBrush={(brush) => updateBrush("duration", brush)}
+            bucketWidth={dashboard.journeyBucketWidth}
+            onBucketWidthChange={(journeyBucketWidth) =>
+              updateDashboard({ journeyBucketWidth })
+            }
+          />
+
+          <TimePatternChart
+            rides={filtered.ridesExceptBrush["time-of-day"] ?? []}
+            brush={getBrush("time-of-day")}
+            onBrush={(brush) => updateBrush("time-of-day", brush)}
+            bucketWidth={dashboard.timeOfDayBucketWidth}
+            onBucketWidthChange={(timeOfDayBucketWidth) =>
+              updateDashboard({ timeOfDayBucketWidth })
+            }
+          />
+
+          <RidesOverTimeHistogram
+            rides={filtered.ridesExceptBrush.period ?? []}
+            brush={getBrush("period")}
+            onBrush={(brush) => updateBrush("period", brush)}
+            bucketWidth={dashboard.periodBucketWidth}
+            onBucketWidthChange={(periodBucketWidth) =>
+              updateDashboard({ periodBucketWidth })
+            }
+          />
+
+          <SpendingPanel rides={filtered.rides} />
+
+          <CostSimulator rides={filtered.rides} />
+        </>
+      )}
+
+      {stationsLoading && stations.length === 0 ? (
         <>
           <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
             <h3 className="font-semibold text-gray-900 mb-2">
@@ -102,28 +294,66 @@ export default function Step4Preview({ rides }: Step4PreviewProps) {
         </>
       ) : (
         <>
-          <StationsTable
-            rides={rides}
-            stations={stations}
-            selectedStations={selectedStations}
-            onStationSelectionChange={setSelectedStations}
-          />
-          <VisitedStationsMap
-            rides={rides}
-            stations={stations}
-            selectedStations={selectedStations}
-          />
-          <RoutesTable
-            rides={rides}
-            stations={stations}
-            selectedRoutes={selectedRoutes}
-            onRouteSelectionChange={setSelectedRoutes}
-            onRoutesCalculated={handleRoutesCalculated}
-          />
-          <RoutesMap routes={selectedRoutesData} />
+          {stationMatches && (
+            <StationMatchReview
+              rides={rides}
+              stationMatches={stationMatches}
+              onPinStation={pinStation}
+              onUnpinStation={unpinStation}
+            />
+          )}
+          {filtered.stationStats && (
+            <>
+              <StationsTable
+                stationStats={filtered.stationStats}
+                selectedStations={selectedStations}
+                onStationSelectionChange={setSelectedStations}
+                sort={dashboard.stationSort}
+                onSortChange={(stationSort) => updateDashboard({ stationSort })}
+              />
+              <VisitedStationsMap
+                stationStats={
+                  filtered.stationStatsExceptBrush ?? filtered.stationStats
+                }
+                selectedStations={selectedStations}
+                brushedStationId={stationBrush?.stationId ?? null}
+                onStationClick={(station) =>
+                  updateBrush(
+                    "station",
+                    station.id === stationBrush?.stationId
+                      ? null
+                      : {
+                          kind: "station",
+                          stationId: station.id,
+                          label: station.name,
+                        }
+                  )
+                }
+              />
+            </>
+          )}
+          {filtered.routeStats && (
+            <>
+              <RoutesTable
+                routes={filtered.routeStats}
+                selectedRoutes={selectedRoutes}
+                onRouteSelectionChange={setSelectedRoutes}
+                sort={dashboard.routeSort}
+                onSortChange={(routeSort) => updateDashboard({ routeSort })}
+              />
+              <RoutesMap
+                routes={selectedRoutesData}
+                rides={filtered.rides ?? undefined}
+              />
+            </>
+          )}
         </>
       )}
 
+      {filtered.rides && enrichedRides && (
+        <RideLog rides={filtered.rides} historyRides={enrichedRides} />
+      )}
+
       <div className="bg-gradient-to-br from-blue-50 to-indigo-50 border border-blue-200 rounded-lg p-6 mt-8">
         <div className="flex items-start gap-3">
           <div className="flex-shrink-0 mt-1">
@@ -0,0 +1,95 @@
+import type { RideValidationReport } from "../utils/rideValidation";
+import { downloadFile } from "../utils/download";
+
+interface ValidationReportProps {
+  report: RideValidationReport;
+  onImportValid: () => void;
+  onCancel: () => void;
+}
+
+// Only the first few rejected rides are listed in full
+const MAX_LISTED_REJECTED = 50;
+
+export default function ValidationReport({
+  report,
+  onImportValid,
+  onCancel,
+}: ValidationReportProps) {
+  const { validRides, rejected } = report;
+  const validCount = validRides.length;
+  const issueCount = rejected.reduce((sum, r) => sum + r.issues.length, 0);
+
+  const downloadRejected = () => {
+    downloadFile(
+      JSON.stringify(rejected, null, 2),
+      `rejected-rides-${new Date().toISOString().slice(0, 10)}.json`,
+      "application/json"
+    );
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <h3 className="text-xl font-semibold text-gray-900 mb-2">
+        Validation Report
+      </h3>
+      <p className="text-gray-600 mb-4">
+        <strong className="text-green-700">{validCount}</strong> ride
+        {validCount !== 1 ? "s are" : " is"} valid.{" "}
+        <strong className="text-red-700">{rejected.length}</strong> ride
+        {rejected.length !== 1 ? "s" : ""} failed validation with {issueCount}{" "}
+        issue{issueCount !== 1 ? "s" : ""}.
+      </p>
+
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+        <ul className="text-sm text-red-800 space-y-2 max-h-64 overflow-y-auto">
+          {rejected.slice(0, MAX_LISTED_REJECTED).map(({ index, issues }) => (
+            <li key={index}>
+              <span className="font-semibold">Ride {index}</span>
+              <ul className="ml-4 list-disc list-inside">
+                {issues.map((issue, i) => (
+                  <li key={i}>
+                    {issue.path && (
+                      <code className="text-red-900">{issue.path}</code>
+                    )}
+                    {issue.path && ": "}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+          {rejected.length > MAX_LISTED_REJECTED && (
+            <li className="text-red-600">
+              …and {rejected.length - MAX_LISTED_REJECTED} more - download the
+              rejected rides to see them all
+            </li>
+          )}
+        </ul>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={onImportValid}
+          disabled={validCount === 0}
+          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {validCount > 0
+            ? `Import ${validCount} valid ride${validCount !== 1 ? "s" : ""}`
+            : "No valid rides to import"}
+        </button>
+        <button
+          onClick={downloadRejected}
+          className="px-6 py-3 bg-gray-100 hover:bg-gray-200 rounded-lg border border-gray-300 transition-colors font-medium"
+        >
+          Download rejected rides
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 bg-gray-100 hover:bg-gray-200 rounded-lg border border-gray-300 transition-colors font-medium"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import type { AnalyticsProgress } from "../../hooks/useRideAnalytics";
+import type { AnalyticsStage } from "../../utils/analyticsPipeline";
+
+interface AnalysisProgressProps {
+  progress: AnalyticsProgress | null;
+  totalRides: number;
+}
+
+const STAGE_LABELS: Record<AnalyticsStage, string> = {
+  matching: "Matching stations",
+  enriching: "Preparing rides",
+  aggregating: "Calculating statistics",
+};
+
+// Each stage's share of the overall progress bar
+const STAGE_WEIGHTS: Record<AnalyticsStage, [number, number]> = {
+  matching: [0, 0.6],
+  enriching: [0.6, 0.9],
+  aggregating: [0.9, 1],
+};
+
+export default function AnalysisProgress({
+  progress,
+  totalRides,
+}: AnalysisProgressProps) {
+  let percent = 0;
+  if (progress && progress.total > 0) {
+    const [start, end] = STAGE_WEIGHTS[progress.stage];
+    percent = Math.round(
+      (start + (end - start) * (progress.completed / progress.total)) * 100
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2 text-sm">
+        <span className="font-semibold text-gray-900">
+          Analysing {totalRides.toLocaleString()} ride
+          {totalRides !== 1 ? "s" : ""}…
+        </span>
+        <span className="text-gray-600">
+          {progress
+            ? `${STAGE_LABELS[progress.stage]}${
+                progress.stage !== "aggregating"
+                  ? ` (${progress.completed.toLocaleString()} / ${progress.total.toLocaleString()})`
+                  : ""
+              }`
+            : "Starting…"}
+        </span>
+      </div>
+      <div
+        className="w-full h-2 bg-gray-200 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div
+          className="h-full bg-blue-600 transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import {
+  BRUSH_KIND_LABELS,
+  type Brush,
+  type BrushKind,
+} from "../../utils/brushes";
+
+interface BrushBreadcrumbProps {
+  brushes: Brush[]; // in the order they were made
+  onRemove: (kind: BrushKind) => void;
+  onClear: () => void;
+}
+
+export default function BrushBreadcrumb({
+  brushes,
+  onRemove,
+  onClear,
+}: BrushBreadcrumbProps) {
+  if (brushes.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm">
+      <span className="font-medium text-blue-900">Narrowed to:</span>
+      {brushes.map((brush, i) => (
+        <span key={brush.kind} className="flex items-center gap-2">
+          {i > 0 && (
+            <span className="text-blue-300" aria-hidden="true">
+              ›
+            </span>
+          )}
+          <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-white border border-blue-200 text-blue-800 rounded">
+            <span className="text-blue-500">
+              {BRUSH_KIND_LABELS[brush.kind]}:
+            </span>
+            {brush.label}
+            <button
+              onClick={() => onRemove(brush.kind)}
+              className="ml-1 text-blue-600 hover:text-blue-900"
+              aria-label={`Clear ${BRUSH_KIND_LABELS[
+                brush.kind
+              ].toLowerCase()} selection`}
+            >
+              ×
+            </button>
+          </span>
+        </span>
+      ))}
+      <button
+        onClick={onClear}
+        className="ml-auto px-3 py-1 bg-white hover:bg-gray-100 rounded border border-gray-300 transition-colors"
+      >
+        Clear all
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,537 @@
+import { useState, useMemo } from "react";
+import { Bar } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+  type TooltipItem,
+} from "chart.js";
+import type { EnrichedRide } from "../../types/ride";
+import type {
+  PayAsYouGoPlan,
+  TariffPlan,
+  TariffRuleSet,
+} from "../../schemas/tariffs";
+import { useTariffsContext } from "../../hooks/useTariffsContext";
+import { formatPence } from "../../utils/spending";
+import {
+  simulateCosts,
+  TARIFF_PLAN_IDS,
+  TARIFF_PLAN_LABELS,
+  type TariffPlanId,
+} from "../../utils/tariffs";
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface CostSimulatorProps {
+  rides: EnrichedRide[];
+}
+
+const PLAN_COLORS: Record<TariffPlanId, string> = {
+  payAsYouGo: "249, 115, 22", // orange-500
+  dayPass: "234, 179, 8", // yellow-500
+  monthly: "59, 130, 246", // blue-500
+  annual: "139, 92, 246", // violet-500
+};
+
+// Plans that can be switched off for rule sets where they weren't on sale
+const OPTIONAL_PLANS = ["dayPass", "monthly", "annual"] as const;
+
+// Number input that keeps what's typed as a draft, so a field can be
+// cleared and retyped. Valid values are passed on as they're typed; the
+// last valid value comes back if the field is left invalid.
+function DraftNumberInput({
+  label,
+  value,
+  min,
+  step,
+  className,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  step?: number;
+  className: string;
+  onChange: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      type="number"
+      min={min}
+      step={step}
+      value={draft ?? String(value)}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const parsed = parseFloat(e.target.value);
+        if (!isNaN(parsed) && parsed >= min) onChange(parsed);
+      }}
+      onBlur={() => setDraft(null)}
+      className={className}
+      aria-label={label}
+    />
+  );
+}
+
+// Price in pounds, stored in pence
+function PoundsInput({
+  label,
+  pence,
+  onChange,
+}: {
+  label: string;
+  pence: number;
+  onChange: (pence: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1">
+      <span className="text-gray-500">£</span>
+      <DraftNumberInput
+        label={label}
+        value={pence / 100}
+        min={0}
+        step={0.01}
+        onChange={(pounds) => onChange(Math.round(pounds * 100))}
+        className="w-20 px-2 py-1 border border-gray-300 rounded"
+      />
+    </label>
+  );
+}
+
+function MinutesInput({
+  label,
+  minutes,
+  onChange,
+}: {
+  label: string;
+  minutes: number;
+  onChange: (minutes: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1">
+      <DraftNumberInput
+        label={label}
+        value={minutes}
+        min={1}
+        onChange={onChange}
+        className="w-16 px-2 py-1 border border-gray-300 rounded"
+      />
+      <span className="text-gray-500">min</span>
+    </label>
+  );
+}
+
+function PlanInputs<Plan extends TariffPlan>({
+  label,
+  plan,
+  onChange,
+}: {
+  label: string;
+  plan: Plan;
+  onChange: (plan: Plan) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <PoundsInput
+        label={`${label} price`}
+        pence={plan.feePence}
+        onChange={(feePence) => onChange({ ...plan, feePence })}
+      />
+      <span className="text-gray-400">with</span>
+      <MinutesInput
+        label={`${label} free minutes per ride`}
+        minutes={plan.includedMinutes}
+        onChange={(includedMinutes) => onChange({ ...plan, includedMinutes })}
+      />
+      <span className="text-gray-400">free per ride</span>
+    </div>
+  );
+}
+
+function RuleSetEditor({
+  ruleSet,
+  canRemove,
+  onChange,
+  onRemove,
+}: {
+  ruleSet: TariffRuleSet;
+  canRemove: boolean;
+  onChange: (changes: Partial<TariffRuleSet>) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          value={ruleSet.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          className="flex-1 min-w-40 px-2 py-1 border border-gray-300 rounded font-medium"
+          aria-label="Rule set name"
+        />
+        <label className="flex items-center gap-2 text-gray-700">
+          From
+          <input
+            type="date"
+            value={ruleSet.validFrom}
+            onChange={(e) =>
+              e.target.value && onChange({ validFrom: e.target.value })
+            }
+            className="px-2 py-1 border border-gray-300 rounded"
+            aria-label="Prices apply from"
+          />
+        </label>
+        <button
+          onClick={onRemove}
+          disabled={!canRemove}
+          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Remove
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[10rem_1fr] gap-x-4 gap-y-2 items-center">
+        <label className="flex items-center gap-2 text-gray-700">
+          Pay as you go per
+          <select
+            value={ruleSet.payAsYouGo.chargedPer}
+            onChange={(e) =>
+              onChange({
+                payAsYouGo: {
+                  ...ruleSet.payAsYouGo,
+                  chargedPer: e.target.value as PayAsYouGoPlan["chargedPer"],
+                },
+              })
+            }
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="ride">ride</option>
+            <option value="day">day</option>
+          </select>
+        </label>
+        <PlanInputs
+          label="Pay as you go"
+          plan={ruleSet.payAsYouGo}
+          onChange={(payAsYouGo) => onChange({ payAsYouGo })}
+        />
+
+        {OPTIONAL_PLANS.map((planId) => {
+          const plan = ruleSet[planId];
+          return (
+            <div key={planId} className="contents">
+              <label className="flex items-center gap-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={plan !== null}
+                  onChange={(e) =>
+                    onChange({
+                      [planId]: e.target.checked
+                        ? {
+                            feePence: ruleSet.payAsYouGo.feePence,
+                            includedMinutes: ruleSet.payAsYouGo.includedMinutes,
+                          }
+                        : null,
+                    })
+                  }
+                />
+                {TARIFF_PLAN_LABELS[planId]}
+              </label>
+              {plan ? (
+                <PlanInputs
+                  label={TARIFF_PLAN_LABELS[planId]}
+                  plan={plan}
+                  onChange={(next) => onChange({ [planId]: next })}
+                />
+              ) : (
+                <span className="text-gray-500">
+                  Not on sale, priced as pay as you go
+                </span>
+              )}
+            </div>
+          );
+        })}
+
+        <span className="text-gray-700">Extra time</span>
+        <div className="flex items-center gap-2">
+          <PoundsInput
+            label="Extra time price"
+            pence={ruleSet.extraPence}
+            onChange={(extraPence) => onChange({ extraPence })}
+          />
+          <span className="text-gray-400">per</span>
+          <MinutesInput
+            label="Extra time block"
+            minutes={ruleSet.extraBlockMinutes}
+            onChange={(extraBlockMinutes) => onChange({ extraBlockMinutes })}
+          />
+        </div>
+
+        <span className="text-gray-700">E-bike surcharge</span>
+        <div className="flex items-center gap-2">
+          <PoundsInput
+            label="E-bike surcharge"
+            pence={ruleSet.eBikeSurchargePence}
+            onChange={(eBikeSurchargePence) =>
+              onChange({ eBikeSurchargePence })
+            }
+          />
+          <span className="text-gray-400">per ride</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function CostSimulator({ rides }: CostSimulatorProps) {
+  const {
+    tariffs,
+    loadError,
+    updateRuleSet,
+    addRuleSet,
+    removeRuleSet,
+    resetTariffs,
+  } = useTariffsContext();
+  const [showTariffs, setShowTariffs] = useState(false);
+
+  const simulation = useMemo(
+    () => simulateCosts(rides, tariffs),
+    [rides, tariffs]
+  );
+
+  if (simulation.rides === 0) {
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+        <h3 className="font-semibold text-gray-900 mb-2">Plan Comparison</h3>
+        <p className="text-gray-600">No dated rides to re-price.</p>
+      </div>
+    );
+  }
+
+  const chartData = {
+    labels: simulation.months.map((m) => m.label),
+    datasets: TARIFF_PLAN_IDS.map((planId) => ({
+      label: TARIFF_PLAN_LABELS[planId],
+      data: simulation.months.map((m) => m.costs[planId] / 100),
+      backgroundColor: `rgba(${PLAN_COLORS[planId]}, 0.6)`,
+      borderColor: `rgba(${PLAN_COLORS[planId]}, 1)`,
+      borderWidth: 1,
+    })),
+  };
+
+  const formatPounds = (value: number | string) =>
+    `£${Number(value).toFixed(2)}`;
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      title: {
+        display: true,
+        text: "Monthly Cost by Plan",
+        font: {
+          size: 16,
+          weight: "bold" as const,
+        },
+      },
+      tooltip: {
+        callbacks: {
+          label: function (context: TooltipItem<"bar">) {
+            return `${context.dataset.label}: ${formatPounds(
+              context.parsed.y ?? 0
+            )}`;
+          },
+        },
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        ticks: {
+          callback: formatPounds,
+        },
+      },
+    },
+  };
+
+  const ridingMonths = simulation.months.filter((m) => m.cheapest !== null);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">
+          Plan Comparison
+        </h3>
+        <p className="text-gray-600 text-sm">
+          What these rides would have cost under each plan, using the prices in
+          effect on the day of each ride. The default tariffs charge pay as you
+          go per day before September 2022, when £2 bought 24 hours of access.
+          Day passes are bought on each riding day and monthly memberships for
+          each calendar month with a ride. An annual membership starts with your
+          first ride and is renewed after it runs out, with its price spread
+          over the months it covers.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+        {TARIFF_PLAN_IDS.map((planId) => {
+          const isCheapest = planId === simulation.cheapest;
+          return (
+            <div
+              key={planId}
+              className={`rounded-lg p-4 border ${
+                isCheapest
+                  ? "bg-green-50 border-green-300"
+                  : "bg-gray-50 border-gray-200"
+              }`}
+            >
+              <div
+                className={`text-2xl font-bold ${
+                  isCheapest ? "text-green-900" : "text-gray-900"
+                }`}
+              >
+                {formatPence(Math.round(simulation.totals[planId]))}
+              </div>
+              <div
+                className={`text-sm mt-1 ${
+                  isCheapest ? "text-green-700" : "text-gray-600"
+                }`}
+              >
+                {TARIFF_PLAN_LABELS[planId]}
+                {isCheapest && " · cheapest"}
+              </div>
+            </div>
+          );
+        })}
+        {simulation.pricedRides > 0 && (
+          <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+            <div className="text-2xl font-bold text-orange-900">
+              {formatPence(simulation.paidPence)}
+            </div>
+            <div className="text-sm text-orange-700 mt-1">
+              Actually paid for {simulation.pricedRides} priced ride
+              {simulation.pricedRides !== 1 ? "s" : ""}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="h-64">
+        <Bar data={chartData} options={chartOptions} />
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-gray-900 mb-2">
+          Cheapest plan by month
+        </h4>
+        <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-3 py-2 font-medium">Month</th>
+                <th className="px-3 py-2 font-medium text-right">Rides</th>
+                <th className="px-3 py-2 font-medium text-right">Paid</th>
+                {TARIFF_PLAN_IDS.map((planId) => (
+                  <th key={planId} className="px-3 py-2 font-medium text-right">
+                    {TARIFF_PLAN_LABELS[planId]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {ridingMonths.map((month) => (
+                <tr key={month.key}>
+                  <td className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                    {month.label}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">
+                    {month.rides}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">
+                    {formatPence(month.paidPence)}
+                  </td>
+                  {TARIFF_PLAN_IDS.map((planId) => (
+                    <td
+                      key={planId}
+                      className={`px-3 py-2 text-right ${
+                        planId === month.cheapest
+                          ? "font-semibold text-green-800 bg-green-50"
+                          : "text-gray-700"
+                      }`}
+                    >
+                      {formatPence(month.costs[planId])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <h4 className="font-semibold text-gray-900">Tariffs</h4>
+          <button
+            onClick={() => setShowTariffs(!showTariffs)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            {showTariffs ? "Hide tariffs" : "Edit tariffs"}
+          </button>
+        </div>
+        <p className="text-sm text-gray-600">
+          The starting prices are approximate. Check them against TfL's
+          published prices and add a rule set whenever prices changed. Edits are
+          saved in this browser.
+        </p>
+        {loadError && (
+          <p className="mt-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+            Your saved tariffs couldn't be read ({loadError}), so the defaults
+            are shown instead. Editing them keeps a copy of the unreadable
+            tariffs in this browser.
+          </p>
+        )}
+        {showTariffs && (
+          <div className="mt-4 space-y-4">
+            {tariffs.map((ruleSet, index) => (
+              <RuleSetEditor
+                key={index}
+                ruleSet={ruleSet}
+                canRemove={tariffs.length > 1}
+                onChange={(changes) => updateRuleSet(index, changes)}
+                onRemove={() => removeRuleSet(index)}
+              />
+            ))}
+            <div className="flex gap-2">
+              <button
+                onClick={addRuleSet}
+                className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
+              >
+                Add rule set
+              </button>
+              <button
+                onClick={resetTariffs}
+                className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 transition-colors"
+              >
+                Reset to defaults
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
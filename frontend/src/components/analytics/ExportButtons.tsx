@@ -0,0 +1,55 @@
+import { useState } from "react";
+import {
+  exportTable,
+  type ExportFormat,
+  type ExportTable,
+} from "../../utils/tableExport";
+
+interface ExportButtonsProps {
+  label: string;
+  // Built on click, so large tables aren't converted on every render
+  getTable: () => ExportTable;
+  disabled?: boolean;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "XLSX" },
+];
+
+export default function ExportButtons({
+  label,
+  getTable,
+  disabled = false,
+}: ExportButtonsProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: ExportFormat) => {
+    setError(null);
+    try {
+      exportTable(getTable(), format);
+    } catch (err) {
+      console.error("Failed to export table:", err);
+      setError(
+        `Export failed: ${err instanceof Error ? err.message : "Unknown error"}`
+      );
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-600">
+      <span>{label}</span>
+      {FORMATS.map(({ format, label: formatLabel }) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={disabled}
+          className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {formatLabel}
+        </button>
+      ))}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
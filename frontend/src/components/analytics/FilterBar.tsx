@@ -0,0 +1,196 @@
+import type { Station } from "../../schemas/station";
+import {
+  DEFAULT_RIDE_FILTERS,
+  countActiveFilters,
+  type BikeType,
+  type DayType,
+  type RideFilters,
+} from "../../utils/rideFilters";
+import StationFilterPicker from "./StationFilterPicker";
+
+interface FilterBarProps {
+  filters: RideFilters;
+  onChange: (filters: RideFilters) => void;
+  stations: Station[]; // stations that appear in the rides
+  matchingRides: number;
+  totalRides: number;
+}
+
+const HOURS = Array.from({ length: 25 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+const parseMinutes = (value: string) =>
+  value === "" ? null : Math.max(0, Number(value));
+
+export default function FilterBar({
+  filters,
+  onChange,
+  stations,
+  matchingRides,
+  totalRides,
+}: FilterBarProps) {
+  const activeCount = countActiveFilters(filters);
+
+  const update = (changes: Partial<RideFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-3">
+          <h3 className="font-semibold text-gray-900">Filters</h3>
+          <span className="text-sm text-gray-600">
+            {activeCount > 0
+              ? `Showing ${matchingRides.toLocaleString()} of ${totalRides.toLocaleString()} rides`
+              : `All ${totalRides.toLocaleString()} rides`}
+          </span>
+        </div>
+        {activeCount > 0 && (
+          <button
+            onClick={() => onChange(DEFAULT_RIDE_FILTERS)}
+            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 transition-colors"
+          >
+            Reset filters ({activeCount})
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            Date range
+          </label>
+          <div className="flex items-center gap-1">
+            <input
+              type="date"
+              value={filters.dateFrom ?? ""}
+              max={filters.dateTo ?? undefined}
+              onChange={(e) => update({ dateFrom: e.target.value || null })}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              aria-label="From date"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="date"
+              value={filters.dateTo ?? ""}
+              min={filters.dateFrom ?? undefined}
+              onChange={(e) => update({ dateTo: e.target.value || null })}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              aria-label="To date"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            Days
+          </label>
+          <select
+            value={filters.dayType}
+            onChange={(e) => update({ dayType: e.target.value as DayType })}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="all">Every day</option>
+            <option value="weekday">Weekdays</option>
+            <option value="weekend">Weekends</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            Time of day (start)
+          </label>
+          <div className="flex items-center gap-1">
+            <select
+              value={filters.hourFrom}
+              onChange={(e) => update({ hourFrom: Number(e.target.value) })}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              aria-label="From time"
+            >
+              {HOURS.slice(0, 24).map((hour) => (
+                <option key={hour} value={hour}>
+                  {formatHour(hour)}
+                </option>
+              ))}
+            </select>
+            <span className="text-gray-400">–</span>
+            <select
+              value={filters.hourTo}
+              onChange={(e) => update({ hourTo: Number(e.target.value) })}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              aria-label="To time"
+            >
+              {HOURS.slice(1).map((hour) => (
+                <option key={hour} value={hour}>
+                  {formatHour(hour)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            Bike
+          </label>
+          <select
+            value={filters.bikeType}
+            onChange={(e) => update({ bikeType: e.target.value as BikeType })}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="all">Any bike</option>
+            <option value="classic">Classic</option>
+            <option value="ebike">E-bike</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            Duration (min)
+          </label>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              value={filters.minDurationMinutes ?? ""}
+              onChange={(e) =>
+                update({ minDurationMinutes: parseMinutes(e.target.value) })
+              }
+              placeholder="Min"
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              aria-label="Minimum duration in minutes"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="number"
+              min={0}
+              value={filters.maxDurationMinutes ?? ""}
+              onChange={(e) =>
+                update({ maxDurationMinutes: parseMinutes(e.target.value) })
+              }
+              placeholder="Max"
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              aria-label="Maximum duration in minutes"
+            />
+          </div>
+        </div>
+
+        <StationFilterPicker
+          label="Start stations"
+          stations={stations}
+          selectedIds={filters.startStationIds}
+          onChange={(startStationIds) => update({ startStationIds })}
+        />
+
+        <StationFilterPicker
+          label="End stations"
+          stations={stations}
+          selectedIds={filters.endStationIds}
+          onChange={(endStationIds) => update({ endStationIds })}
+        />
+      </div>
+    </div>
+  );
+}
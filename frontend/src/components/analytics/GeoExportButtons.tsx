@@ -0,0 +1,58 @@
+import { useState } from "react";
+import {
+  exportGeoFeatures,
+  type GeoFeature,
+  type GeoFormat,
+} from "../../utils/geoExport";
+
+interface GeoExportButtonsProps {
+  label: string;
+  name: string; // used for the file and document names
+  // Built on click, so large exports aren't converted on every render
+  getFeatures: () => GeoFeature[];
+  disabled?: boolean;
+}
+
+const FORMATS: { format: GeoFormat; label: string }[] = [
+  { format: "geojson", label: "GeoJSON" },
+  { format: "kml", label: "KML" },
+  { format: "gpx", label: "GPX" },
+];
+
+export default function GeoExportButtons({
+  label,
+  name,
+  getFeatures,
+  disabled = false,
+}: GeoExportButtonsProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: GeoFormat) => {
+    setError(null);
+    try {
+      exportGeoFeatures(getFeatures(), name, format);
+    } catch (err) {
+      console.error("Failed to export map data:", err);
+      setError(
+        `Export failed: ${err instanceof Error ? err.message : "Unknown error"}`
+      );
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-600">
+      <span>{label}</span>
+      {FORMATS.map(({ format, label: formatLabel }) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={disabled}
+          className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {formatLabel}
+        </button>
+      ))}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -10,9 +10,13 @@ import {
   Legend,
   type TooltipItem,
 } from "chart.js";
-import type { Ride } from "../../types/ride";
-
-type BucketWidth = "15s" | "30s" | "1m" | "2m" | "5m";
+import type { EnrichedRide } from "../../types/ride";
+import {
+  getBarClickOptions,
+  overlapsBrush,
+  type DurationBrush,
+} from "../../utils/brushes";
+import type { JourneyBucketWidth as BucketWidth } from "../../utils/dashboardState";
 
 // Register Chart.js components
 ChartJS.register(
@@ -25,29 +29,41 @@ ChartJS.register(
 );
 
 interface JourneyTimeHistogramProps {
-  rides: Ride[];
+  rides: EnrichedRide[];
+  brush?: DurationBrush | null;
+  onBrush?: (brush: DurationBrush | null) => void;
+  bucketWidth?: BucketWidth;
+  onBucketWidthChange?: (bucketWidth: BucketWidth) => void;
 }
 
 export default function JourneyTimeHistogram({
   rides,
+  brush = null,
+  onBrush,
+  bucketWidth: externalBucketWidth,
+  onBucketWidthChange,
 }: JourneyTimeHistogramProps) {
-  const [bucketWidth, setBucketWidth] = useState<BucketWidth>("1m");
+  const [internalBucketWidth, setInternalBucketWidth] =
+    useState<BucketWidth>("1m");
 
-  const chartData = useMemo(() => {
+  // Use external state if provided, otherwise use internal state
+  const bucketWidth = externalBucketWidth ?? internalBucketWidth;
+  const setBucketWidth = onBucketWidthChange ?? setInternalBucketWidth;
+
+  const histogram = useMemo(() => {
     // Filter rides with valid duration
-    const ridesWithDuration = rides.filter(
-      (r) => r.startTimeMs !== null && r.endTimeMs !== null
-    );
+    const durationsMs = rides
+      .map((r) => r.durationMs)
+      .filter((d): d is number => d !== null);
 
-    if (ridesWithDuration.length === 0) {
+    if (durationsMs.length === 0) {
       return null;
     }
 
     // Calculate durations in seconds for more precise binning
-    const durationsSeconds = ridesWithDuration.map((r) => {
-      const durationMs = (r.endTimeMs || 0) - (r.startTimeMs || 0);
-      return Math.floor(durationMs / 1000); // Convert to seconds
-    });
+    const durationsSeconds = durationsMs.map(
+      (durationMs) => Math.floor(durationMs / 1000) // Convert to seconds
+    );
 
     // Find min and max for binning
     const minDurationSeconds = Math.min(...durationsSeconds);
@@ -69,11 +85,13 @@ export default function JourneyTimeHistogram({
       1;
     const bins: number[] = new Array(numBins).fill(0);
     const binLabels: string[] = [];
+    const binRanges: [number, number][] = [];
 
     // Create bin labels
     for (let i = 0; i < numBins; i++) {
       const binStartSeconds = minDurationSeconds + i * bucketSizeSeconds;
       const binEndSeconds = binStartSeconds + bucketSizeSeconds;
+      binRanges.push([binStartSeconds, binEndSeconds]);
 
       // Format labels based on bucket width
       if (bucketWidth === "15s" || bucketWidth === "30s") {
@@ -100,21 +118,10 @@ export default function JourneyTimeHistogram({
       bins[Math.min(binIndex, numBins - 1)]++;
     });
 
-    return {
-      labels: binLabels,
-      datasets: [
-        {
-          label: "Number of Rides",
-          data: bins,
-          backgroundColor: "rgba(59, 130, 246, 0.6)", // blue-500 with opacity
-          borderColor: "rgba(59, 130, 246, 1)", // blue-500
-          borderWidth: 1,
-        },
-      ],
-    };
+    return { labels: binLabels, bins, ranges: binRanges };
   }, [rides, bucketWidth]);
 
-  if (!chartData) {
+  if (!histogram) {
     return (
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
         <h3 className="font-semibold text-gray-900 mb-2">
@@ -136,7 +143,52 @@ export default function JourneyTimeHistogram({
     return `Ride Duration Distribution (${bucketLabels[bucketWidth]})`;
   };
 
+  const isBrushed = (index: number) =>
+    brush !== null &&
+    overlapsBrush(
+      histogram.ranges[index][0],
+      histogram.ranges[index][1],
+      brush.fromSeconds,
+      brush.toSeconds
+    );
+
+  const chartData = {
+    labels: histogram.labels,
+    datasets: [
+      {
+        label: "Number of Rides",
+        data: histogram.bins,
+        // blue-500, with the brushed bars picked out
+        backgroundColor: brush
+          ? histogram.bins.map((_, i) =>
+              isBrushed(i) ? "rgba(59, 130, 246, 1)" : "rgba(59, 130, 246, 0.2)"
+            )
+          : "rgba(59, 130, 246, 0.6)",
+        borderColor: "rgba(59, 130, 246, 1)",
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  // Clicking a bar brushes that journey time; clicking it again clears it
+  const handleBarClick = (index: number) => {
+    const [fromSeconds, toSeconds] = histogram.ranges[index];
+    const isSame =
+      brush?.fromSeconds === fromSeconds && brush?.toSeconds === toSeconds;
+    onBrush?.(
+      isSame
+        ? null
+        : {
+            kind: "duration",
+            fromSeconds,
+            toSeconds,
+            label: histogram.labels[index],
+          }
+    );
+  };
+
   const options = {
+    ...(onBrush ? getBarClickOptions(handleBarClick) : {}),
     responsive: true,
     maintainAspectRatio: false,
     plugins: {
@@ -191,6 +243,7 @@ export default function JourneyTimeHistogram({
       <p className="text-gray-600 mb-4 text-sm">
         Distribution of your ride durations. See how long your typical journeys
         are.
+        {onBrush && " Click a bar to narrow every other panel to those rides."}
       </p>
       <div className="mb-4 flex items-center gap-2">
         <label
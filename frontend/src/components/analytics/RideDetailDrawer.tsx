@@ -0,0 +1,262 @@
+import { useEffect, useMemo } from "react";
+import {
+  MapContainer,
+  TileLayer,
+  CircleMarker,
+  Polyline,
+  Tooltip,
+  useMap,
+} from "react-leaflet";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import type { Station } from "../../schemas/station";
+import type { EnrichedRide } from "../../types/ride";
+import {
+  formatPaymentMethod,
+  formatRideDate,
+  formatRideDuration,
+  getRouteHistory,
+} from "../../utils/rideLog";
+
+interface RideDetailDrawerProps {
+  ride: EnrichedRide;
+  historyRides: EnrichedRide[]; // every ride, to place this one in its route's history
+  onSelectRide: (ride: EnrichedRide) => void;
+  onClose: () => void;
+}
+
+// Component to fit map bounds to the ride's stations
+function MapBounds({ stations }: { stations: Station[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (stations.length === 0) return;
+    const bounds = L.latLngBounds(
+      stations.map((s) => [s.lat, s.long] as [number, number])
+    );
+    map.fitBounds(bounds, { padding: [30, 30], maxZoom: 16 });
+  }, [map, stations]);
+
+  return null;
+}
+
+function RideMiniMap({ start, end }: { start: Station; end: Station }) {
+  const stations = useMemo(() => [start, end], [start, end]);
+
+  return (
+    <div className="h-48 rounded-lg overflow-hidden border border-gray-300">
+      <MapContainer
+        center={[start.lat, start.long]}
+        zoom={14}
+        style={{ height: "100%", width: "100%" }}
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+        <MapBounds stations={stations} />
+        {start.id !== end.id && (
+          <Polyline
+            positions={[
+              [start.lat, start.long],
+              [end.lat, end.long],
+            ]}
+            pathOptions={{ color: "#3B82F6", weight: 3, dashArray: "6 6" }}
+          />
+        )}
+        <CircleMarker
+          center={[start.lat, start.long]}
+          radius={8}
+          pathOptions={{ color: "white", fillColor: "#22C55E", fillOpacity: 1 }}
+        >
+          <Tooltip>Start: {start.name}</Tooltip>
+        </CircleMarker>
+        <CircleMarker
+          center={[end.lat, end.long]}
+          radius={8}
+          pathOptions={{ color: "white", fillColor: "#EF4444", fillOpacity: 1 }}
+        >
+          <Tooltip>End: {end.name}</Tooltip>
+        </CircleMarker>
+      </MapContainer>
+    </div>
+  );
+}
+
+export default function RideDetailDrawer({
+  ride,
+  historyRides,
+  onSelectRide,
+  onClose,
+}: RideDetailDrawerProps) {
+  const history = useMemo(
+    () => getRouteHistory(historyRides, ride),
+    [historyRides, ride]
+  );
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const previousRide =
+    history.position > 0 ? history.rides[history.position - 1] : null;
+  const nextRide =
+    history.position >= 0 && history.position < history.rides.length - 1
+      ? history.rides[history.position + 1]
+      : null;
+  const paymentMethod = formatPaymentMethod(ride.paymentMethod);
+
+  return (
+    // Above the Leaflet maps on the page, whose panes sit at z-index 400+
+    <div className="fixed inset-0 z-[1100] flex justify-end">
+      <div
+        className="absolute inset-0 bg-black/30"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+      <aside
+        className="relative w-full max-w-md h-full bg-white shadow-xl overflow-y-auto p-6 space-y-6"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Ride details"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">
+              {formatRideDate(ride.startTimeMs)}
+            </h3>
+            {ride.rideId && (
+              <p className="text-xs text-gray-500 mt-1">Ride {ride.rideId}</p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 transition-colors"
+            aria-label="Close ride details"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="space-y-2 text-sm">
+          <p>
+            <span className="text-gray-500">From </span>
+            <span className="font-medium text-gray-900">
+              {ride.startStation?.name ?? ride.startAddress ?? "Unknown"}
+            </span>
+          </p>
+          <p>
+            <span className="text-gray-500">To </span>
+            <span className="font-medium text-gray-900">
+              {ride.endStation?.name ?? ride.endAddress ?? "Unknown"}
+            </span>
+          </p>
+        </div>
+
+        {ride.startStation && ride.endStation ? (
+          <RideMiniMap start={ride.startStation} end={ride.endStation} />
+        ) : (
+          <p className="text-sm text-gray-500 bg-gray-50 border border-gray-200 rounded-lg p-3">
+            This ride's stations couldn't be matched, so there's no map.
+          </p>
+        )}
+
+        <dl className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Duration</dt>
+            <dd className="font-medium text-gray-900">
+              {formatRideDuration(ride.durationMs)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Distance</dt>
+            <dd className="font-medium text-gray-900">
+              {ride.distanceKm !== null
+                ? `${ride.distanceKm.toFixed(2)} km`
+                : "—"}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Bike</dt>
+            <dd className="font-medium text-gray-900">
+              {ride.isEBike ? "E-bike" : "Classic"}
+            </dd>
+          </div>
+        </dl>
+
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">Price</h4>
+          {ride.priceBreakdown && ride.priceBreakdown.length > 0 ? (
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {ride.priceBreakdown.map((item, i) => (
+                  <tr key={i}>
+                    <td className="py-1 text-gray-700">
+                      {item.title ?? "Charge"}
+                    </td>
+                    <td className="py-1 text-right text-gray-900">
+                      {item.amount ?? "—"}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="py-1 text-gray-900">Total</td>
+                  <td className="py-1 text-right text-gray-900">
+                    {ride.price ?? "—"}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-700">
+              {ride.price ?? "No price recorded"}
+            </p>
+          )}
+          <p className="text-sm text-gray-500 mt-2">
+            {paymentMethod
+              ? `Paid with ${paymentMethod}`
+              : "No payment method recorded"}
+          </p>
+        </div>
+
+        {history.position >= 0 && (
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">Route history</h4>
+            <p className="text-sm text-gray-700">
+              {history.rides.length === 1
+                ? "Your only ride on this route."
+                : `Ride ${history.position + 1} of ${
+                    history.rides.length
+                  } on this route, first ridden ${formatRideDate(
+                    history.rides[0].startTimeMs
+                  )}.`}
+            </p>
+            {history.rides.length > 1 && (
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={() => previousRide && onSelectRide(previousRide)}
+                  disabled={!previousRide}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  ← Previous on route
+                </button>
+                <button
+                  onClick={() => nextRide && onSelectRide(nextRide)}
+                  disabled={!nextRide}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next on route →
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
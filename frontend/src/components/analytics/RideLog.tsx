@@ -0,0 +1,186 @@
+import { useState, useMemo, useRef } from "react";
+import type { EnrichedRide } from "../../types/ride";
+import { getRideKey } from "../../utils/rideKey";
+import {
+  formatRideDate,
+  formatRideDuration,
+  searchRides,
+  sortRides,
+  type RideLogSortDirection,
+  type RideLogSortField,
+} from "../../utils/rideLog";
+import RideDetailDrawer from "./RideDetailDrawer";
+
+interface RideLogProps {
+  rides: EnrichedRide[]; // rides to list
+  historyRides: EnrichedRide[]; // every ride, for route history in the drawer
+}
+
+// Only the rows in view (plus a few either side) are rendered, so the log
+// stays quick with thousands of rides
+const ROW_HEIGHT = 44;
+const LIST_HEIGHT = 480;
+const OVERSCAN_ROWS = 8;
+
+// Right-aligned number columns after the date and route
+const NUMBER_COLUMNS: { field: RideLogSortField; label: string }[] = [
+  { field: "duration", label: "Duration" },
+  { field: "distance", label: "Distance" },
+  { field: "price", label: "Price" },
+];
+
+const GRID_COLUMNS =
+  "grid grid-cols-[9rem_minmax(0,1fr)_5rem_5rem_4.5rem] gap-3 items-center";
+
+export default function RideLog({ rides, historyRides }: RideLogProps) {
+  const [query, setQuery] = useState("");
+  const [sortField, setSortField] = useState<RideLogSortField>("date");
+  const [sortDirection, setSortDirection] =
+    useState<RideLogSortDirection>("desc");
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selectedRide, setSelectedRide] = useState<EnrichedRide | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const visibleRides = useMemo(
+    () => sortRides(searchRides(rides, query), sortField, sortDirection),
+    [rides, query, sortField, sortDirection]
+  );
+
+  const scrollToTop = () => {
+    if (listRef.current) listRef.current.scrollTop = 0;
+    setScrollTop(0);
+  };
+
+  const handleSort = (field: RideLogSortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === "desc" ? "asc" : "desc");
+    } else {
+      setSortField(field);
+      setSortDirection("desc");
+    }
+    scrollToTop();
+  };
+
+  const firstRow = Math.max(
+    0,
+    Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS
+  );
+  const lastRow = Math.min(
+    visibleRides.length,
+    Math.ceil((scrollTop + LIST_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS
+  );
+
+  const getSortIndicator = (field: RideLogSortField) =>
+    sortField === field ? (sortDirection === "desc" ? " ↓" : " ↑") : "";
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-2">
+        <h3 className="text-xl font-semibold text-gray-900">Ride Log</h3>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            scrollToTop();
+          }}
+          placeholder="Search stations and addresses"
+          className="w-full sm:w-72 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Search rides"
+        />
+      </div>
+      <p className="text-gray-600 mb-4 text-sm">
+        Every ride behind the numbers above. Click column headers to sort, and a
+        ride to see its details.{" "}
+        {query &&
+          `${visibleRides.length.toLocaleString()} of ${rides.length.toLocaleString()} rides match.`}
+      </p>
+
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        <div
+          className={`${GRID_COLUMNS} px-4 py-3 bg-gray-50 border-b border-gray-200 text-xs font-medium text-gray-500 uppercase tracking-wider`}
+        >
+          <button
+            onClick={() => handleSort("date")}
+            className="text-left uppercase hover:text-gray-700"
+          >
+            Date{getSortIndicator("date")}
+          </button>
+          <span>Route</span>
+          {NUMBER_COLUMNS.map(({ field, label }) => (
+            <button
+              key={field}
+              onClick={() => handleSort(field)}
+              className="text-right uppercase hover:text-gray-700"
+            >
+              {label}
+              {getSortIndicator(field)}
+            </button>
+          ))}
+        </div>
+
+        {visibleRides.length === 0 ? (
+          <p className="px-4 py-8 text-center text-gray-500 text-sm">
+            No rides match your search.
+          </p>
+        ) : (
+          <div
+            ref={listRef}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            className="overflow-y-auto"
+            style={{
+              height: Math.min(LIST_HEIGHT, visibleRides.length * ROW_HEIGHT),
+            }}
+          >
+            <div
+              className="relative"
+              style={{ height: visibleRides.length * ROW_HEIGHT }}
+            >
+              {visibleRides.slice(firstRow, lastRow).map((ride, i) => (
+                <button
+                  key={getRideKey(ride)}
+                  onClick={() => setSelectedRide(ride)}
+                  className={`${GRID_COLUMNS} absolute left-0 right-0 px-4 text-sm text-left border-b border-gray-100 hover:bg-blue-50 ${
+                    ride === selectedRide ? "bg-blue-50" : ""
+                  }`}
+                  style={{
+                    top: (firstRow + i) * ROW_HEIGHT,
+                    height: ROW_HEIGHT,
+                  }}
+                >
+                  <span className="text-gray-900 whitespace-nowrap">
+                    {formatRideDate(ride.startTimeMs)}
+                  </span>
+                  <span className="truncate text-gray-700">
+                    {ride.startStation?.name ?? ride.startAddress ?? "Unknown"}{" "}
+                    → {ride.endStation?.name ?? ride.endAddress ?? "Unknown"}
+                  </span>
+                  <span className="text-right text-gray-700">
+                    {formatRideDuration(ride.durationMs)}
+                  </span>
+                  <span className="text-right text-gray-700">
+                    {ride.distanceKm !== null
+                      ? `${ride.distanceKm.toFixed(1)} km`
+                      : "—"}
+                  </span>
+                  <span className="text-right text-gray-700">
+                    {ride.price ?? "—"}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {selectedRide && (
+        <RideDetailDrawer
+          ride={selectedRide}
+          historyRides={historyRides}
+          onSelectRide={setSelectedRide}
+          onClose={() => setSelectedRide(null)}
+        />
+      )}
+    </div>
+  );
+}
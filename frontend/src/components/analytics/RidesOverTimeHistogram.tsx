@@ -10,9 +10,13 @@ import {
   Legend,
   type TooltipItem,
 } from "chart.js";
-import type { Ride } from "../../types/ride";
-
-type BucketWidth = "1d" | "3d" | "1w" | "1m" | "3m" | "6m" | "1y";
+import type { EnrichedRide } from "../../types/ride";
+import {
+  getBarClickOptions,
+  overlapsBrush,
+  type PeriodBrush,
+} from "../../utils/brushes";
+import type { PeriodBucketWidth as BucketWidth } from "../../utils/dashboardState";
 
 // Register Chart.js components
 ChartJS.register(
@@ -25,17 +29,30 @@ ChartJS.register(
 );
 
 interface RidesOverTimeHistogramProps {
-  rides: Ride[];
+  rides: EnrichedRide[];
+  brush?: PeriodBrush | null;
+  onBrush?: (brush: PeriodBrush | null) => void;
+  bucketWidth?: BucketWidth;
+  onBucketWidthChange?: (bucketWidth: BucketWidth) => void;
 }
 
 export default function RidesOverTimeHistogram({
   rides,
+  brush = null,
+  onBrush,
+  bucketWidth: externalBucketWidth,
+  onBucketWidthChange,
 }: RidesOverTimeHistogramProps) {
-  const [bucketWidth, setBucketWidth] = useState<BucketWidth>("1m");
+  const [internalBucketWidth, setInternalBucketWidth] =
+    useState<BucketWidth>("1m");
 
-  const chartData = useMemo(() => {
+  // Use external state if provided, otherwise use internal state
+  const bucketWidth = externalBucketWidth ?? internalBucketWidth;
+  const setBucketWidth = onBucketWidthChange ?? setInternalBucketWidth;
+
+  const histogram = useMemo(() => {
     // Filter rides with valid start time
-    const ridesWithStartTime = rides.filter((r) => r.startTimeMs !== null);
+    const ridesWithStartTime = rides.filter((r) => r.startDate !== null);
 
     if (ridesWithStartTime.length === 0) {
       return null;
@@ -86,9 +103,8 @@ export default function RidesOverTimeHistogram({
     // Count rides per bin
     const binCounts = new Map<string, number>();
     ridesWithStartTime.forEach((ride) => {
-      if (ride.startTimeMs !== null) {
-        const date = new Date(ride.startTimeMs);
-        const key = getBinKey(date);
+      if (ride.startDate !== null) {
+        const key = getBinKey(ride.startDate);
         binCounts.set(key, (binCounts.get(key) || 0) + 1);
       }
     });
@@ -157,6 +173,10 @@ export default function RidesOverTimeHistogram({
     // Generate labels and data for all bins
     const binLabels: string[] = [];
     const bins: number[] = [];
+    const binRanges: [number, number][] = binStartDates.map((binStartDate) => [
+      binStartDate.getTime(),
+      getNextBinStartDate(binStartDate).getTime(),
+    ]);
 
     binStartDates.forEach((binStartDate) => {
       const key = getBinKey(binStartDate);
@@ -213,21 +233,10 @@ export default function RidesOverTimeHistogram({
       bins.push(binCounts.get(key) || 0);
     });
 
-    return {
-      labels: binLabels,
-      datasets: [
-        {
-          label: "Number of Rides",
-          data: bins,
-          backgroundColor: "rgba(168, 85, 247, 0.6)", // purple-500 with opacity
-          borderColor: "rgba(168, 85, 247, 1)", // purple-500
-          borderWidth: 1,
-        },
-      ],
-    };
+    return { labels: binLabels, bins, ranges: binRanges };
   }, [rides, bucketWidth]);
 
-  if (!chartData) {
+  if (!histogram) {
     return (
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
         <h3 className="font-semibold text-gray-900 mb-2">Rides Over Time</h3>
@@ -251,7 +260,46 @@ export default function RidesOverTimeHistogram({
     return `Rides Over Time (${bucketLabels[bucketWidth]})`;
   };
 
+  const isBrushed = (index: number) =>
+    brush !== null &&
+    overlapsBrush(
+      histogram.ranges[index][0],
+      histogram.ranges[index][1],
+      brush.fromMs,
+      brush.toMs
+    );
+
+  const chartData = {
+    labels: histogram.labels,
+    datasets: [
+      {
+        label: "Number of Rides",
+        data: histogram.bins,
+        // purple-500, with the brushed bars picked out
+        backgroundColor: brush
+          ? histogram.bins.map((_, i) =>
+              isBrushed(i) ? "rgba(168, 85, 247, 1)" : "rgba(168, 85, 247, 0.2)"
+            )
+          : "rgba(168, 85, 247, 0.6)",
+        borderColor: "rgba(168, 85, 247, 1)",
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  // Clicking a bar brushes that period; clicking it again clears it
+  const handleBarClick = (index: number) => {
+    const [fromMs, toMs] = histogram.ranges[index];
+    const isSame = brush?.fromMs === fromMs && brush?.toMs === toMs;
+    onBrush?.(
+      isSame
+        ? null
+        : { kind: "period", fromMs, toMs, label: histogram.labels[index] }
+    );
+  };
+
   const options = {
+    ...(onBrush ? getBarClickOptions(handleBarClick) : {}),
     responsive: true,
     maintainAspectRatio: false,
     plugins: {
@@ -307,6 +355,7 @@ export default function RidesOverTimeHistogram({
       <p className="text-gray-600 mb-4 text-sm">
         See how your cycling activity has changed over time. Track your ride
         frequency across different time periods.
+        {onBrush && " Click a bar to narrow every other panel to those rides."}
       </p>
       <div className="mb-4 flex items-center gap-2">
         <label
@@ -10,19 +10,18 @@ import {
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import type { Station } from "../../schemas/station";
-
-interface Route {
-  startStation: Station;
-  endStation: Station;
-  count: number;
-}
+import type { EnrichedRide } from "../../types/ride";
+import type { RouteStats } from "../../utils/rideAggregates";
+import { getRideFeatures, getRouteFeatures } from "../../utils/geoExport";
+import GeoExportButtons from "./GeoExportButtons";
 
 interface RoutesMapProps {
-  routes: Route[];
+  routes: RouteStats[];
+  rides?: EnrichedRide[]; // enables exporting every ride
 }
 
 // Component to fit map bounds to show all routes
-function MapBounds({ routes }: { routes: Route[] }) {
+function MapBounds({ routes }: { routes: RouteStats[] }) {
   const map = useMap();
 
   useMemo(() => {
@@ -48,7 +47,7 @@ function MapBounds({ routes }: { routes: Route[] }) {
 // Fixed blue color matching station icons
 const ROUTE_COLOR = "#3B82F6"; // blue-500
 
-export default function RoutesMap({ routes }: RoutesMapProps) {
+export default function RoutesMap({ routes, rides }: RoutesMapProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
 
   // Calculate max count for color normalization
@@ -212,6 +211,22 @@ export default function RoutesMap({ routes }: RoutesMapProps) {
         </button>
       </div>
       {mapElement}
+      <div className="flex flex-wrap gap-x-6 gap-y-2 mt-4">
+        <GeoExportButtons
+          label="Export selected routes:"
+          name="Routes"
+          getFeatures={() => getRouteFeatures(routes)}
+          disabled={routes.length === 0}
+        />
+        {rides && (
+          <GeoExportButtons
+            label="Export every ride:"
+            name="Rides"
+            getFeatures={() => getRideFeatures(rides)}
+            disabled={rides.length === 0}
+          />
+        )}
+      </div>
     </div>
   );
 }
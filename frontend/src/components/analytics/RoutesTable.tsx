@@ -1,201 +1,42 @@
 import { useState, useMemo, useEffect, useRef } from "react";
-import type { Ride } from "../../types/ride";
-import type { Station } from "../../schemas/station";
+import type { RouteStats } from "../../utils/rideAggregates";
+import { getRoutesExportTable } from "../../utils/tableExport";
+import ExportButtons from "./ExportButtons";
+import type { RouteSortField, TableSort } from "../../utils/dashboardState";
+
+type SortField = RouteSortField;
 
 interface RoutesTableProps {
-  rides: Ride[];
-  stations: Station[];
+  routes: RouteStats[];
   selectedRoutes?: Set<string>;
   onRouteSelectionChange?: (selectedRoutes: Set<string>) => void;
-  onRoutesCalculated?: (routes: RouteStats[]) => void;
-}
-
-type SortField =
-  | "startStation"
-  | "endStation"
-  | "count"
-  | "distance"
-  | "avgDuration"
-  | "minDuration"
-  | "maxDuration";
-type SortDirection = "none" | "asc" | "desc";
-
-export interface RouteStats {
-  startStation: Station;
-  endStation: Station;
-  count: number;
-  avgDurationMinutes: number | null;
-  minDurationMinutes: number | null;
-  maxDurationMinutes: number | null;
-  distanceKm: number;
-}
-
-// Calculate distance between two lat/long points using Haversine formula (returns km)
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Radius of the Earth in km
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-// Match station by name similarity (fuzzy matching)
-function findStationByName(
-  address: string | null,
-  stations: Station[]
-): Station | null {
-  if (!address) return null;
-
-  const normalizedAddress = address.toLowerCase().trim();
-
-  // Try exact match first
-  for (const station of stations) {
-    const stationName = station.name.toLowerCase();
-    if (
-      normalizedAddress.includes(stationName) ||
-      stationName.includes(normalizedAddress)
-    ) {
-      return station;
-    }
-  }
-
-  // Try matching by terminal name if address contains numbers
-  const terminalMatch = normalizedAddress.match(/\d{6}/);
-  if (terminalMatch) {
-    const terminal = terminalMatch[0];
-    const station = stations.find((s) => s.terminalName === terminal);
-    if (station) return station;
-  }
-
-  // Try partial word matching
-  const addressWords = normalizedAddress
-    .split(/[,\s]+/)
-    .filter((w) => w.length > 2);
-  for (const station of stations) {
-    const stationWords = station.name.toLowerCase().split(/[,\s]+/);
-    const matchingWords = addressWords.filter((aw) =>
-      stationWords.some((sw) => sw.includes(aw) || aw.includes(sw))
-    );
-    // If at least 2 words match, consider it a match
-    if (matchingWords.length >= 2) {
-      return station;
-    }
-  }
-
-  return null;
+  sort?: TableSort<SortField>;
+  onSortChange?: (sort: TableSort<SortField>) => void;
 }
 
 export default function RoutesTable({
-  rides,
-  stations,
+  routes: routeStats,
   selectedRoutes: externalSelectedRoutes,
   onRouteSelectionChange,
-  onRoutesCalculated,
+  sort: externalSort,
+  onSortChange,
 }: RoutesTableProps) {
-  const [sortField, setSortField] = useState<SortField>("count");
-  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [internalSort, setInternalSort] = useState<TableSort<SortField>>({
+    field: "count",
+    direction: "desc",
+  });
   const [internalSelectedRoutes, setInternalSelectedRoutes] = useState<
     Set<string>
   >(new Set());
 
   // Use external state if provided, otherwise use internal state
+  const { field: sortField, direction: sortDirection } =
+    externalSort ?? internalSort;
+  const setSort = onSortChange ?? setInternalSort;
   const selectedRoutes = externalSelectedRoutes ?? internalSelectedRoutes;
   const setSelectedRoutes = onRouteSelectionChange ?? setInternalSelectedRoutes;
   const initializedRef = useRef(false);
 
-  // Calculate route stats
-  const routeStats = useMemo(() => {
-    const routesMap = new Map<string, RouteStats>();
-
-    rides.forEach((ride) => {
-      const startStation = findStationByName(ride.startAddress, stations);
-      const endStation = findStationByName(ride.endAddress, stations);
-
-      // Only count routes where both stations are identified
-      if (startStation && endStation) {
-        const routeKey = `${startStation.id}-${endStation.id}`;
-        const existing = routesMap.get(routeKey);
-
-        // Calculate distance between stations
-        const distanceKm = calculateDistance(
-          startStation.lat,
-          startStation.long,
-          endStation.lat,
-          endStation.long
-        );
-
-        // Calculate duration if available
-        let durationMinutes: number | null = null;
-        if (ride.startTimeMs !== null && ride.endTimeMs !== null) {
-          const durationMs = ride.endTimeMs - ride.startTimeMs;
-          durationMinutes = Math.round(durationMs / 60000);
-        }
-
-        if (existing) {
-          existing.count++;
-          // Update average, min, and max duration
-          if (durationMinutes !== null) {
-            if (existing.avgDurationMinutes === null) {
-              existing.avgDurationMinutes = durationMinutes;
-            } else {
-              // Recalculate average
-              const totalDuration =
-                existing.avgDurationMinutes * (existing.count - 1) +
-                durationMinutes;
-              existing.avgDurationMinutes = Math.round(
-                totalDuration / existing.count
-              );
-            }
-            // Update min duration
-            if (
-              existing.minDurationMinutes === null ||
-              durationMinutes < existing.minDurationMinutes
-            ) {
-              existing.minDurationMinutes = durationMinutes;
-            }
-            // Update max duration
-            if (
-              existing.maxDurationMinutes === null ||
-              durationMinutes > existing.maxDurationMinutes
-            ) {
-              existing.maxDurationMinutes = durationMinutes;
-            }
-          }
-        } else {
-          routesMap.set(routeKey, {
-            startStation,
-            endStation,
-            count: 1,
-            avgDurationMinutes: durationMinutes,
-            minDurationMinutes: durationMinutes,
-            maxDurationMinutes: durationMinutes,
-            distanceKm,
-          });
-        }
-      }
-    });
-
-    return Array.from(routesMap.values());
-  }, [rides, stations]);
-
-  // Notify parent of calculated routes
-  useEffect(() => {
-    if (onRoutesCalculated) {
-      onRoutesCalculated(routeStats);
-    }
-  }, [routeStats, onRoutesCalculated]);
-
   // Auto-select all routes on first load
   useEffect(() => {
     if (
@@ -274,15 +115,14 @@ export default function RoutesTable({
     if (sortField === field) {
       // Cycle through: desc -> asc -> none -> desc
       if (sortDirection === "desc") {
-        setSortDirection("asc");
+        setSort({ field, direction: "asc" });
       } else if (sortDirection === "asc") {
-        setSortDirection("none");
+        setSort({ field, direction: "none" });
       } else {
-        setSortDirection("desc");
+        setSort({ field, direction: "desc" });
       }
     } else {
-      setSortField(field);
-      setSortDirection("desc");
+      setSort({ field, direction: "desc" });
     }
   };
 
@@ -353,6 +193,14 @@ export default function RoutesTable({
     );
   };
 
+  // Export the selected routes in the current sort order, or all of them if
+  // none are selected
+  const selectedSortedRoutes = sortedRoutes.filter((route) =>
+    selectedRoutes.has(getRouteKey(route))
+  );
+  const exportRoutes =
+    selectedSortedRoutes.length > 0 ? selectedSortedRoutes : sortedRoutes;
+
   if (sortedRoutes.length === 0) {
     return (
       <div className="bg-white border border-gray-200 rounded-lg p-6">
@@ -366,9 +214,17 @@ export default function RoutesTable({
 
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-6">
-      <h3 className="text-xl font-semibold text-gray-900 mb-4">
-        Route Statistics
-      </h3>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-xl font-semibold text-gray-900">
+          Route Statistics
+        </h3>
+        <ExportButtons
+          label={`Export ${exportRoutes.length}${
+            exportRoutes === selectedSortedRoutes ? " selected" : ""
+          } route${exportRoutes.length !== 1 ? "s" : ""}:`}
+          getTable={() => getRoutesExportTable(exportRoutes)}
+        />
+      </div>
       <p className="text-gray-600 mb-4 text-sm">
         Click column headers to sort. Shows the most common routes you've taken
         between stations.
@@ -0,0 +1,195 @@
+import { useState, useEffect, useRef } from "react";
+import type { RideStats, StationStats } from "../../utils/rideAggregates";
+import {
+  DEFAULT_SHARE_STATS,
+  MAX_SHARE_STATS,
+  SHARE_STATS,
+  SHARE_TEMPLATES,
+  drawShareCard,
+  type ShareStatId,
+  type ShareTemplateId,
+} from "../../utils/shareCard";
+import { canvasToBlob } from "../../utils/canvas";
+import { downloadFile, getExportFileName } from "../../utils/download";
+
+interface ShareCardGeneratorProps {
+  stats: RideStats;
+  stationStats: StationStats[];
+}
+
+export default function ShareCardGenerator({
+  stats,
+  stationStats,
+}: ShareCardGeneratorProps) {
+  const [open, setOpen] = useState(false);
+  const [template, setTemplate] = useState<ShareTemplateId>("square");
+  const [statIds, setStatIds] = useState<ShareStatId[]>(DEFAULT_SHARE_STATS);
+  const [hideStationNames, setHideStationNames] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const canCopy =
+    typeof ClipboardItem !== "undefined" && !!navigator.clipboard?.write;
+
+  useEffect(() => {
+    if (!open || !canvasRef.current) return;
+    drawShareCard(canvasRef.current, {
+      template,
+      statIds,
+      hideStationNames,
+      stats,
+      stationStats,
+    });
+  }, [open, template, statIds, hideStationNames, stats, stationStats]);
+
+  const toggleStat = (id: ShareStatId, checked: boolean) => {
+    setCopied(false);
+    // Keep the order stats are listed in, not the order they were picked
+    setStatIds((prev) =>
+      SHARE_STATS.map((s) => s.id).filter((statId) =>
+        statId === id ? checked : prev.includes(statId)
+      )
+    );
+  };
+
+  const describeError = (err: unknown) =>
+    err instanceof Error ? err.message : "Unknown error";
+
+  const downloadCard = async () => {
+    if (!canvasRef.current) return;
+    setError(null);
+    try {
+      downloadFile(
+        await canvasToBlob(canvasRef.current),
+        getExportFileName("share card", "png"),
+        "image/png"
+      );
+    } catch (err) {
+      console.error("Failed to create share card:", err);
+      setError(`Couldn't create the image: ${describeError(err)}`);
+    }
+  };
+
+  const copyCard = async () => {
+    if (!canvasRef.current) return;
+    setError(null);
+    try {
+      const blob = await canvasToBlob(canvasRef.current);
+      await navigator.clipboard.write([
+        new ClipboardItem({ "image/png": blob }),
+      ]);
+      setCopied(true);
+    } catch (err) {
+      console.error("Failed to copy share card:", err);
+      setError(`Couldn't copy the image: ${describeError(err)}`);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Share Card</h3>
+          <p className="text-gray-600 text-sm mt-1">
+            Make an image of your headline stats to share. It's generated in
+            your browser - nothing is uploaded.
+          </p>
+        </div>
+        <button
+          onClick={() => setOpen((prev) => !prev)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+        >
+          {open ? "Hide" : "Create share card"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-6">
+          <div className="space-y-4 text-sm text-gray-700">
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-2">Layout</h4>
+              <div className="flex flex-wrap gap-4">
+                {SHARE_TEMPLATES.map((t) => (
+                  <label key={t.id} className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={template === t.id}
+                      onChange={() => {
+                        setTemplate(t.id);
+                        setCopied(false);
+                      }}
+                    />
+                    {t.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-2">
+                Stats (up to {MAX_SHARE_STATS})
+              </h4>
+              <div className="space-y-1">
+                {SHARE_STATS.map((stat) => {
+                  const checked = statIds.includes(stat.id);
+                  return (
+                    <label key={stat.id} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        checked={checked}
+                        disabled={!checked && statIds.length >= MAX_SHARE_STATS}
+                        onChange={(e) => toggleStat(stat.id, e.target.checked)}
+                      />
+                      {stat.label}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={hideStationNames}
+                onChange={(e) => {
+                  setHideStationNames(e.target.checked);
+                  setCopied(false);
+                }}
+              />
+              Hide station names
+            </label>
+
+            <div className="flex flex-wrap gap-3 pt-2">
+              <button
+                onClick={downloadCard}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                Download PNG
+              </button>
+              {canCopy && (
+                <button
+                  onClick={copyCard}
+                  className="px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg border border-gray-300 transition-colors font-medium"
+                >
+                  {copied ? "Copied!" : "Copy image"}
+                </button>
+              )}
+            </div>
+            {error && <p className="text-red-600">{error}</p>}
+          </div>
+
+          <div className="lg:col-span-2 flex justify-center bg-gray-100 rounded-lg p-4">
+            <canvas
+              ref={canvasRef}
+              className="max-w-full max-h-[480px] w-auto h-auto shadow-lg rounded"
+              aria-label="Share card preview"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+import { useState, useMemo } from "react";
+import { Bar, Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  LineElement,
+  PointElement,
+  Title,
+  Tooltip,
+  Legend,
+  type TooltipItem,
+} from "chart.js";
+import type { EnrichedRide } from "../../types/ride";
+import { computeSpending, formatPence } from "../../utils/spending";
+import { formatRideDate, formatRideDuration } from "../../utils/rideLog";
+import { getRideKey } from "../../utils/rideKey";
+
+type SpendPeriod = "month" | "year";
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  LineElement,
+  PointElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface SpendingPanelProps {
+  rides: EnrichedRide[];
+}
+
+// Overtime rides listed before "show all"
+const OVERTIME_PREVIEW_COUNT = 10;
+
+export default function SpendingPanel({ rides }: SpendingPanelProps) {
+  const [period, setPeriod] = useState<SpendPeriod>("month");
+  const [showAllOvertime, setShowAllOvertime] = useState(false);
+
+  const spending = useMemo(() => computeSpending(rides), [rides]);
+  const periods = period === "month" ? spending.months : spending.years;
+
+  if (spending.pricedRides === 0) {
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+        <h3 className="font-semibold text-gray-900 mb-2">Spending</h3>
+        <p className="text-gray-600">
+          No price data available to display. TfL usage data doesn't include
+          what rides cost.
+        </p>
+      </div>
+    );
+  }
+
+  const spendData = {
+    labels: periods.map((p) => p.label),
+    datasets: [
+      {
+        label: "Spend",
+        data: periods.map((p) => p.spentPence / 100),
+        backgroundColor: "rgba(249, 115, 22, 0.6)", // orange-500 with opacity
+        borderColor: "rgba(249, 115, 22, 1)", // orange-500
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  // Periods without priced rides (or distance) have no cost to show
+  const costData = {
+    labels: periods.map((p) => p.label),
+    datasets: [
+      {
+        label: "Cost per ride",
+        data: periods.map((p) =>
+          p.pricedRides > 0 ? p.spentPence / p.pricedRides / 100 : null
+        ),
+        borderColor: "rgba(249, 115, 22, 1)", // orange-500
+        backgroundColor: "rgba(249, 115, 22, 0.6)",
+        spanGaps: true,
+      },
+      {
+        label: "Cost per km",
+        data: periods.map((p) =>
+          p.pricedDistanceKm > 0
+            ? p.pricedDistancePence / p.pricedDistanceKm / 100
+            : null
+        ),
+        borderColor: "rgba(20, 184, 166, 1)", // teal-500
+        backgroundColor: "rgba(20, 184, 166, 0.6)",
+        spanGaps: true,
+      },
+    ],
+  };
+
+  const formatPounds = (value: number | string) =>
+    `£${Number(value).toFixed(2)}`;
+
+  const spendOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      title: {
+        display: true,
+        text: period === "month" ? "Monthly Spend" : "Yearly Spend",
+        font: {
+          size: 16,
+          weight: "bold" as const,
+        },
+      },
+      tooltip: {
+        callbacks: {
+          label: function (context: TooltipItem<"bar">) {
+            const p = periods[context.dataIndex];
+            return `${formatPounds(context.parsed.y ?? 0)} over ${
+              p.pricedRides
+            } ride${p.pricedRides !== 1 ? "s" : ""}`;
+          },
+        },
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        ticks: {
+          callback: formatPounds,
+        },
+      },
+    },
+  };
+
+  const costOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      title: {
+        display: true,
+        text: "Cost per Ride and per km",
+        font: {
+          size: 16,
+          weight: "bold" as const,
+        },
+      },
+      tooltip: {
+        callbacks: {
+          label: function (context: TooltipItem<"line">) {
+            return `${context.dataset.label}: ${formatPounds(
+              context.parsed.y ?? 0
+            )}`;
+          },
+        },
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        ticks: {
+          callback: formatPounds,
+        },
+      },
+    },
+  };
+
+  const overtimeRides = showAllOvertime
+    ? spending.overtimeRides
+    : spending.overtimeRides.slice(0, OVERTIME_PREVIEW_COUNT);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Spending</h3>
+        <p className="text-gray-600 text-sm">
+          What your rides cost, from each ride's price breakdown and the card it
+          was charged to. Distances are straight lines between stations, so cost
+          per km is an upper bound.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+          <div className="text-2xl font-bold text-orange-900">
+            {formatPence(spending.totalPence)}
+          </div>
+          <div className="text-sm text-orange-700 mt-1">
+            Spent over {spending.pricedRides} priced ride
+            {spending.pricedRides !== 1 ? "s" : ""}
+          </div>
+        </div>
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+          <div className="text-2xl font-bold text-orange-900">
+            {formatPence(
+              Math.round(spending.totalPence / spending.pricedRides)
+            )}
+          </div>
+          <div className="text-sm text-orange-700 mt-1">Average per ride</div>
+        </div>
+        {spending.pricedDistanceKm > 0 && (
+          <div className="bg-teal-50 border border-teal-200 rounded-lg p-4">
+            <div className="text-2xl font-bold text-teal-900">
+              {formatPence(
+                Math.round(
+                  spending.pricedDistancePence / spending.pricedDistanceKm
+                )
+              )}
+            </div>
+            <div className="text-sm text-teal-700 mt-1">Average per km</div>
+          </div>
+        )}
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="text-2xl font-bold text-red-900">
+            {formatPence(spending.overtimePence)}
+          </div>
+          <div className="text-sm text-red-700 mt-1">
+            Overtime charges on {spending.overtimeRides.length} ride
+            {spending.overtimeRides.length !== 1 ? "s" : ""}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="mb-4 flex items-center gap-2">
+          <label
+            htmlFor="spend-period"
+            className="text-sm font-medium text-gray-700"
+          >
+            Group by:
+          </label>
+          <select
+            id="spend-period"
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as SpendPeriod)}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+          >
+            <option value="month">Month</option>
+            <option value="year">Year</option>
+          </select>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="h-64">
+            <Bar data={spendData} options={spendOptions} />
+          </div>
+          <div className="h-64">
+            <Line data={costData} options={costOptions} />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">
+            By price breakdown line
+          </h4>
+          {spending.lineItems.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              None of these rides have a price breakdown.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2 font-medium">Item</th>
+                  <th className="py-2 font-medium text-right">Times</th>
+                  <th className="py-2 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {spending.lineItems.map((item) => (
+                  <tr key={item.title}>
+                    <td className="py-2 text-gray-900">{item.title}</td>
+                    <td className="py-2 text-right text-gray-700">
+                      {item.count}
+                    </td>
+                    <td className="py-2 text-right text-gray-900">
+                      {formatPence(item.spentPence)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">By payment card</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2 font-medium">Card</th>
+                <th className="py-2 font-medium text-right">Rides</th>
+                <th className="py-2 font-medium text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {spending.cards.map((card) => (
+                <tr key={card.card}>
+                  <td className="py-2 text-gray-900">{card.card}</td>
+                  <td className="py-2 text-right text-gray-700">
+                    {card.rides}
+                  </td>
+                  <td className="py-2 text-right text-gray-900">
+                    {formatPence(card.spentPence)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {spending.overtimeRides.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">
+            Rides with overtime charges
+          </h4>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {overtimeRides.map(({ ride, overtimePence }) => (
+              <li
+                key={getRideKey(ride)}
+                className="py-2 flex flex-wrap items-center justify-between gap-2"
+              >
+                <span className="text-gray-900">
+                  {formatRideDate(ride.startTimeMs)}
+                  <span className="text-gray-500">
+                    {" "}
+                    ·{" "}
+                    {ride.startStation?.name ??
+                      ride.startAddress ??
+                      "Unknown"}{" "}
+                    → {ride.endStation?.name ?? ride.endAddress ?? "Unknown"} ·{" "}
+                    {formatRideDuration(ride.durationMs)}
+                  </span>
+                </span>
+                <span className="px-2 py-0.5 bg-red-50 border border-red-200 text-red-800 rounded">
+                  +{formatPence(overtimePence)}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {spending.overtimeRides.length > OVERTIME_PREVIEW_COUNT && (
+            <button
+              onClick={() => setShowAllOvertime(!showAllOvertime)}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              {showAllOvertime
+                ? "Show fewer"
+                : `Show all ${spending.overtimeRides.length}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState, useId } from "react";
+import type { Station } from "../../schemas/station";
+
+interface StationFilterPickerProps {
+  label: string;
+  stations: Station[]; // stations that can be picked
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+}
+
+export default function StationFilterPicker({
+  label,
+  stations,
+  selectedIds,
+  onChange,
+}: StationFilterPickerProps) {
+  const [query, setQuery] = useState("");
+  const listId = useId();
+  const stationsById = new Map(stations.map((s) => [s.id, s]));
+
+  const addStation = (name: string) => {
+    const station = stations.find(
+      (s) => s.name.toLowerCase() === name.trim().toLowerCase()
+    );
+    if (!station) return false;
+    if (!selectedIds.includes(station.id)) {
+      onChange([...selectedIds, station.id]);
+    }
+    setQuery("");
+    return true;
+  };
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-600 mb-1">
+        {label}
+      </label>
+      <input
+        type="text"
+        list={listId}
+        value={query}
+        onChange={(e) => {
+          // Picking from the list fills in a full station name
+          if (!addStation(e.target.value)) setQuery(e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") addStation(query);
+        }}
+        placeholder="Any station"
+        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+      />
+      <datalist id={listId}>
+        {stations
+          .filter((s) => !selectedIds.includes(s.id))
+          .map((s) => (
+            <option key={s.id} value={s.name} />
+          ))}
+      </datalist>
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {selectedIds.map((id) => (
+            <span
+              key={id}
+              className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 text-blue-800 rounded text-xs"
+            >
+              {stationsById.get(id)?.name ?? id}
+              <button
+                onClick={() =>
+                  onChange(selectedIds.filter((selected) => selected !== id))
+                }
+                className="text-blue-600 hover:text-blue-900"
+                aria-label={`Remove ${stationsById.get(id)?.name ?? id}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState, useMemo } from "react";
+import type { Ride } from "../../types/ride";
+import type { Station } from "../../schemas/station";
+import { useStationsContext } from "../../hooks/useStationsContext";
+import {
+  createStationMatcher,
+  LOW_CONFIDENCE_THRESHOLD,
+  type StationMatch,
+  type StationMatches,
+} from "../../utils/stationMatching";
+
+interface StationMatchReviewProps {
+  rides: Ride[];
+  stationMatches: StationMatches;
+  onPinStation: (address: string, stationId: string) => void;
+  onUnpinStation: (address: string) => void;
+}
+
+interface AddressRow {
+  address: string;
+  rideCount: number;
+  match: StationMatch | null;
+  suggestions: Station[];
+}
+
+export default function StationMatchReview({
+  rides,
+  stationMatches,
+  onPinStation,
+  onUnpinStation,
+}: StationMatchReviewProps) {
+  const [pendingSelections, setPendingSelections] = useState<
+    Record<string, string>
+  >({});
+  const { stations, index: stationIndex } = useStationsContext();
+
+  const sortedStations = useMemo(
+    () => [...stations].sort((a, b) => a.name.localeCompare(b.name)),
+    [stations]
+  );
+
+  // Count how many rides start or end at each address
+  const rideCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    rides.forEach((ride) => {
+      [ride.startAddress, ride.endAddress].forEach((address) => {
+        if (address) counts.set(address, (counts.get(address) || 0) + 1);
+      });
+    });
+    return counts;
+  }, [rides]);
+
+  const { reviewRows, pinnedRows } = useMemo(() => {
+    const matcher = createStationMatcher(stationIndex);
+    const reviewRows: AddressRow[] = [];
+    const pinnedRows: AddressRow[] = [];
+
+    stationMatches.forEach((match, address) => {
+      const row = {
+        address,
+        rideCount: rideCounts.get(address) || 0,
+        match,
+        suggestions: [] as Station[],
+      };
+      if (match?.strategy === "manual") {
+        pinnedRows.push(row);
+      } else if (!match || match.confidence < LOW_CONFIDENCE_THRESHOLD) {
+        row.suggestions = matcher.suggest(address);
+        reviewRows.push(row);
+      }
+    });
+
+    reviewRows.sort((a, b) => b.rideCount - a.rideCount);
+    pinnedRows.sort((a, b) => a.address.localeCompare(b.address));
+    return { reviewRows, pinnedRows };
+  }, [stationIndex, stationMatches, rideCounts]);
+
+  const handlePin = (row: AddressRow) => {
+    const stationId =
+      pendingSelections[row.address] ??
+      row.match?.station.id ??
+      row.suggestions[0]?.id;
+    if (stationId) {
+      onPinStation(row.address, stationId);
+    }
+  };
+
+  if (reviewRows.length === 0 && pinnedRows.length === 0) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+        <h3 className="font-semibold text-green-900 mb-1">Station Matching</h3>
+        <p className="text-green-800 text-sm">
+          Every ride address was matched to a station with high confidence.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <h3 className="text-xl font-semibold text-gray-900 mb-4">
+        Station Matching Review
+      </h3>
+      <p className="text-gray-600 mb-4 text-sm">
+        These ride addresses couldn't be matched to a docking station, or were
+        matched with low confidence. Rides at unmatched addresses are left out
+        of the station and route statistics. Pick the right station and pin it -
+        your mappings are saved in your browser and applied to every chart.
+      </p>
+
+      {reviewRows.length > 0 && (
+        <div className="overflow-x-auto overflow-y-auto max-h-[520px] border border-gray-200 rounded-lg mb-6">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0 z-10">
+              <tr>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  Address
+                </th>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  Rides
+                </th>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  Current Match
+                </th>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  Map To
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {reviewRows.map((row) => {
+                const selectedId =
+                  pendingSelections[row.address] ??
+                  row.match?.station.id ??
+                  row.suggestions[0]?.id ??
+                  "";
+                return (
+                  <tr key={row.address} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      {row.address}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
+                      {row.rideCount}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {row.match ? (
+                        <>
+                          <div>{row.match.station.name}</div>
+                          <div className="text-xs text-amber-600">
+                            {row.match.strategy} ·{" "}
+                            {Math.round(row.match.confidence * 100)}% confidence
+                          </div>
+                        </>
+                      ) : (
+                        <span className="text-red-600">Unresolved</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={selectedId}
+                          onChange={(e) =>
+                            setPendingSelections((prev) => ({
+                              ...prev,
+                              [row.address]: e.target.value,
+                            }))
+                          }
+                          className="max-w-xs px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="" disabled>
+                            Choose a station…
+                          </option>
+                          {row.suggestions.length > 0 && (
+                            <optgroup label="Suggestions">
+                              {row.suggestions.map((station) => (
+                                <option key={station.id} value={station.id}>
+                                  {station.name}
+                                </option>
+                              ))}
+                            </optgroup>
+                          )}
+                          <optgroup label="All stations">
+                            {sortedStations.map((station) => (
+                              <option key={station.id} value={station.id}>
+                                {station.name}
+                              </option>
+                            ))}
+                          </optgroup>
+                        </select>
+                        <button
+                          onClick={() => handlePin(row)}
+                          disabled={!selectedId}
+                          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+                        >
+                          Pin
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pinnedRows.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">
+            Pinned Mappings ({pinnedRows.length})
+          </h4>
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {pinnedRows.map((row) => (
+              <li
+                key={row.address}
+                className="flex items-center justify-between gap-4 px-4 py-2 text-sm"
+              >
+                <span className="text-gray-700">
+                  {row.address} →{" "}
+                  <span className="font-medium text-gray-900">
+                    {row.match?.station.name}
+                  </span>{" "}
+                  <span className="text-gray-500">
+                    ({row.rideCount} ride{row.rideCount !== 1 ? "s" : ""})
+                  </span>
+                </span>
+                <button
+                  onClick={() => onUnpinStation(row.address)}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 transition-colors flex-shrink-0"
+                >
+                  Unpin
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
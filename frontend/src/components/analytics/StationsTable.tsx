@@ -1,130 +1,43 @@
 import { useState, useMemo, useEffect, useRef } from "react";
-import type { Ride } from "../../types/ride";
-import type { Station } from "../../schemas/station";
+import type { StationStats } from "../../utils/rideAggregates";
+import { getStationsExportTable } from "../../utils/tableExport";
+import ExportButtons from "./ExportButtons";
+import type { StationSortField, TableSort } from "../../utils/dashboardState";
+
+type SortField = StationSortField;
 
 interface StationsTableProps {
-  rides: Ride[];
-  stations: Station[];
+  stationStats: StationStats[];
   selectedStations?: Set<string>;
   onStationSelectionChange?: (selectedStations: Set<string>) => void;
-}
-
-type SortField = "name" | "pickups" | "dropoffs" | "total" | "net";
-type SortDirection = "none" | "asc" | "desc";
-
-interface StationStats {
-  station: Station;
-  pickups: number;
-  dropoffs: number;
-  total: number;
-  net: number; // pickups - dropoffs
-}
-
-// Match station by name similarity (fuzzy matching)
-function findStationByName(
-  address: string | null,
-  stations: Station[]
-): Station | null {
-  if (!address) return null;
-
-  const normalizedAddress = address.toLowerCase().trim();
-
-  // Try exact match first
-  for (const station of stations) {
-    const stationName = station.name.toLowerCase();
-    if (
-      normalizedAddress.includes(stationName) ||
-      stationName.includes(normalizedAddress)
-    ) {
-      return station;
-    }
-  }
-
-  // Try matching by terminal name if address contains numbers
-  const terminalMatch = normalizedAddress.match(/\d{6}/);
-  if (terminalMatch) {
-    const terminal = terminalMatch[0];
-    const station = stations.find((s) => s.terminalName === terminal);
-    if (station) return station;
-  }
-
-  // Try partial word matching
-  const addressWords = normalizedAddress
-    .split(/[,\s]+/)
-    .filter((w) => w.length > 2);
-  for (const station of stations) {
-    const stationWords = station.name.toLowerCase().split(/[,\s]+/);
-    const matchingWords = addressWords.filter((aw) =>
-      stationWords.some((sw) => sw.includes(aw) || aw.includes(sw))
-    );
-    // If at least 2 words match, consider it a match
-    if (matchingWords.length >= 2) {
-      return station;
-    }
-  }
-
-  return null;
+  sort?: TableSort<SortField>;
+  onSortChange?: (sort: TableSort<SortField>) => void;
 }
 
 export default function StationsTable({
-  rides,
-  stations,
+  stationStats,
   selectedStations: externalSelectedStations,
   onStationSelectionChange,
+  sort: externalSort,
+  onSortChange,
 }: StationsTableProps) {
-  const [sortField, setSortField] = useState<SortField>("total");
-  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [internalSort, setInternalSort] = useState<TableSort<SortField>>({
+    field: "total",
+    direction: "desc",
+  });
   const [internalSelectedStations, setInternalSelectedStations] = useState<
     Set<string>
   >(new Set());
 
   // Use external state if provided, otherwise use internal state
+  const { field: sortField, direction: sortDirection } =
+    externalSort ?? internalSort;
+  const setSort = onSortChange ?? setInternalSort;
   const selectedStations = externalSelectedStations ?? internalSelectedStations;
   const setSelectedStations =
     onStationSelectionChange ?? setInternalSelectedStations;
   const initializedRef = useRef(false);
 
-  // Calculate stats for each station
-  const stationStats = useMemo(() => {
-    const statsMap = new Map<string, StationStats>();
-
-    // Initialize all stations with zero stats
-    stations.forEach((station) => {
-      statsMap.set(station.id, {
-        station,
-        pickups: 0,
-        dropoffs: 0,
-        total: 0,
-        net: 0,
-      });
-    });
-
-    // Count pickups and dropoffs
-    rides.forEach((ride) => {
-      const startStation = findStationByName(ride.startAddress, stations);
-      if (startStation) {
-        const stats = statsMap.get(startStation.id);
-        if (stats) {
-          stats.pickups++;
-          stats.total++;
-          stats.net++;
-        }
-      }
-
-      const endStation = findStationByName(ride.endAddress, stations);
-      if (endStation) {
-        const stats = statsMap.get(endStation.id);
-        if (stats) {
-          stats.dropoffs++;
-          stats.total++;
-          stats.net--;
-        }
-      }
-    });
-
-    return Array.from(statsMap.values());
-  }, [rides, stations]);
-
   // Sort stations
   const sortedStats = useMemo(() => {
     const sorted = [...stationStats];
@@ -192,6 +105,16 @@ export default function StationsTable({
     }
   }, [visitedStations, selectedStations.size, setSelectedStations]);
 
+  // Export the selected stations in the current sort order, or all of them
+  // if none are selected
+  const selectedVisitedStations = visitedStations.filter((stat) =>
+    selectedStations.has(stat.station.id)
+  );
+  const exportStations =
+    selectedVisitedStations.length > 0
+      ? selectedVisitedStations
+      : visitedStations;
+
   const handleCheckboxChange = (stationId: string, checked: boolean) => {
     const newSelected = new Set(selectedStations);
     if (checked) {
@@ -206,15 +129,14 @@ export default function StationsTable({
     if (sortField === field) {
       // Cycle through: desc -> asc -> none -> desc
       if (sortDirection === "desc") {
-        setSortDirection("asc");
+        setSort({ field, direction: "asc" });
       } else if (sortDirection === "asc") {
-        setSortDirection("none");
+        setSort({ field, direction: "none" });
       } else {
-        setSortDirection("desc");
+        setSort({ field, direction: "desc" });
       }
     } else {
-      setSortField(field);
-      setSortDirection("desc");
+      setSort({ field, direction: "desc" });
     }
   };
 
@@ -283,9 +205,17 @@ export default function StationsTable({
 
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-6">
-      <h3 className="text-xl font-semibold text-gray-900 mb-4">
-        Station Statistics
-      </h3>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-xl font-semibold text-gray-900">
+          Station Statistics
+        </h3>
+        <ExportButtons
+          label={`Export ${exportStations.length}${
+            exportStations === selectedVisitedStations ? " selected" : ""
+          } station${exportStations.length !== 1 ? "s" : ""}:`}
+          getTable={() => getStationsExportTable(exportStations)}
+        />
+      </div>
       <p className="text-gray-600 mb-4 text-sm">
         Click column headers to sort. Shows stations you've visited with pickup
         and dropoff counts.
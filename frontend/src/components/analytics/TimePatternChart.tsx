@@ -10,9 +10,13 @@ import {
   Legend,
   type TooltipItem,
 } from "chart.js";
-import type { Ride } from "../../types/ride";
-
-type BucketWidth = "15m" | "30m" | "1h" | "2h";
+import type { EnrichedRide } from "../../types/ride";
+import {
+  getBarClickOptions,
+  overlapsBrush,
+  type TimeOfDayBrush,
+} from "../../utils/brushes";
+import type { TimeOfDayBucketWidth as BucketWidth } from "../../utils/dashboardState";
 
 // Register Chart.js components
 ChartJS.register(
@@ -25,15 +29,30 @@ ChartJS.register(
 );
 
 interface TimePatternChartProps {
-  rides: Ride[];
+  rides: EnrichedRide[];
+  brush?: TimeOfDayBrush | null;
+  onBrush?: (brush: TimeOfDayBrush | null) => void;
+  bucketWidth?: BucketWidth;
+  onBucketWidthChange?: (bucketWidth: BucketWidth) => void;
 }
 
-export default function TimePatternChart({ rides }: TimePatternChartProps) {
-  const [bucketWidth, setBucketWidth] = useState<BucketWidth>("1h");
+export default function TimePatternChart({
+  rides,
+  brush = null,
+  onBrush,
+  bucketWidth: externalBucketWidth,
+  onBucketWidthChange,
+}: TimePatternChartProps) {
+  const [internalBucketWidth, setInternalBucketWidth] =
+    useState<BucketWidth>("1h");
 
-  const chartData = useMemo(() => {
+  // Use external state if provided, otherwise use internal state
+  const bucketWidth = externalBucketWidth ?? internalBucketWidth;
+  const setBucketWidth = onBucketWidthChange ?? setInternalBucketWidth;
+
+  const histogram = useMemo(() => {
     // Filter rides with valid start time
-    const ridesWithStartTime = rides.filter((r) => r.startTimeMs !== null);
+    const ridesWithStartTime = rides.filter((r) => r.dateParts !== null);
 
     if (ridesWithStartTime.length === 0) {
       return null;
@@ -53,6 +72,7 @@ export default function TimePatternChart({ rides }: TimePatternChartProps) {
     const numBins = Math.ceil(totalMinutesInDay / bucketSizeMinutes);
     const bins: number[] = new Array(numBins).fill(0);
     const binLabels: string[] = [];
+    const binRanges: [number, number][] = [];
 
     // Create bin labels
     for (let i = 0; i < numBins; i++) {
@@ -62,6 +82,8 @@ export default function TimePatternChart({ rides }: TimePatternChartProps) {
         totalMinutesInDay
       );
 
+      binRanges.push([binStartMinutes, binEndMinutes]);
+
       const binStartHour = Math.floor(binStartMinutes / 60);
       const binStartMin = binStartMinutes % 60;
       const binEndHour = Math.floor(binEndMinutes / 60);
@@ -92,31 +114,18 @@ export default function TimePatternChart({ rides }: TimePatternChartProps) {
 
     // Count rides in each bin
     ridesWithStartTime.forEach((ride) => {
-      if (ride.startTimeMs !== null) {
-        const startDate = new Date(ride.startTimeMs);
-        const hours = startDate.getHours();
-        const minutes = startDate.getMinutes();
-        const totalMinutes = hours * 60 + minutes;
+      if (ride.dateParts !== null) {
+        const { hour, minute } = ride.dateParts;
+        const totalMinutes = hour * 60 + minute;
         const binIndex = Math.floor(totalMinutes / bucketSizeMinutes);
         bins[Math.min(binIndex, numBins - 1)]++;
       }
     });
 
-    return {
-      labels: binLabels,
-      datasets: [
-        {
-          label: "Number of Rides",
-          data: bins,
-          backgroundColor: "rgba(34, 197, 94, 0.6)", // green-500 with opacity
-          borderColor: "rgba(34, 197, 94, 1)", // green-500
-          borderWidth: 1,
-        },
-      ],
-    };
+    return { labels: binLabels, bins, ranges: binRanges };
   }, [rides, bucketWidth]);
 
-  if (!chartData) {
+  if (!histogram) {
     return (
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
         <h3 className="font-semibold text-gray-900 mb-2">Time Patterns</h3>
@@ -137,7 +146,52 @@ export default function TimePatternChart({ rides }: TimePatternChartProps) {
     return `Ride Distribution Throughout the Day (${bucketLabels[bucketWidth]})`;
   };
 
+  const isBrushed = (index: number) =>
+    brush !== null &&
+    overlapsBrush(
+      histogram.ranges[index][0],
+      histogram.ranges[index][1],
+      brush.fromMinute,
+      brush.toMinute
+    );
+
+  const chartData = {
+    labels: histogram.labels,
+    datasets: [
+      {
+        label: "Number of Rides",
+        data: histogram.bins,
+        // green-500, with the brushed bars picked out
+        backgroundColor: brush
+          ? histogram.bins.map((_, i) =>
+              isBrushed(i) ? "rgba(34, 197, 94, 1)" : "rgba(34, 197, 94, 0.2)"
+            )
+          : "rgba(34, 197, 94, 0.6)",
+        borderColor: "rgba(34, 197, 94, 1)",
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  // Clicking a bar brushes that time of day; clicking it again clears it
+  const handleBarClick = (index: number) => {
+    const [fromMinute, toMinute] = histogram.ranges[index];
+    const isSame =
+      brush?.fromMinute === fromMinute && brush?.toMinute === toMinute;
+    onBrush?.(
+      isSame
+        ? null
+        : {
+            kind: "time-of-day",
+            fromMinute,
+            toMinute,
+            label: histogram.labels[index],
+          }
+    );
+  };
+
   const options = {
+    ...(onBrush ? getBarClickOptions(handleBarClick) : {}),
     responsive: true,
     maintainAspectRatio: false,
     plugins: {
@@ -189,6 +243,7 @@ export default function TimePatternChart({ rides }: TimePatternChartProps) {
       <p className="text-gray-600 mb-4 text-sm">
         See when you typically cycle during the day. Shows the distribution of
         rides by hour from midnight to midnight.
+        {onBrush && " Click a bar to narrow every other panel to those rides."}
       </p>
       <div className="mb-4 flex items-center gap-2">
         <label
@@ -2,8 +2,10 @@ import { useState, useMemo, useEffect } from "react";
 import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
-import type { Ride } from "../../types/ride";
 import type { Station } from "../../schemas/station";
+import { useStationsContext } from "../../hooks/useStationsContext";
+import { isCurrentStation } from "../../utils/stationRegistry";
+import type { StationStats } from "../../utils/rideAggregates";
 
 // Fix for default marker icons in react-leaflet
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -18,9 +20,10 @@ L.Icon.Default.mergeOptions({
 });
 
 interface VisitedStationsMapProps {
-  rides: Ride[];
-  stations: Station[]; // All stations
+  stationStats: StationStats[];
   selectedStations?: Set<string>; // Selected stations from table
+  brushedStationId?: string | null;
+  onStationClick?: (station: Station) => void; // Only called for visited stations
 }
 
 // Component to fit map bounds to show all stations
@@ -44,10 +47,14 @@ function ZoomAwareMarker({
   station,
   visits,
   getColorForVisits,
+  brushed,
+  onClick,
 }: {
   station: Station;
   visits: number;
   getColorForVisits: (visits: number) => string;
+  brushed: boolean;
+  onClick?: () => void;
 }) {
   const map = useMap();
   const [zoom, setZoom] = useState(map.getZoom());
@@ -71,10 +78,9 @@ function ZoomAwareMarker({
   const baseSize = 12;
   const minSize = 8;
   const maxSize = 24;
-  const size = Math.max(
-    minSize,
-    Math.min(maxSize, baseSize * Math.pow(1.2, zoom - 12))
-  );
+  const size =
+    Math.max(minSize, Math.min(maxSize, baseSize * Math.pow(1.2, zoom - 12))) *
+    (brushed ? 1.5 : 1);
 
   const color = getColorForVisits(visits);
   const icon = L.divIcon({
@@ -84,7 +90,7 @@ function ZoomAwareMarker({
       width: ${size}px;
       height: ${size}px;
       border-radius: 50%;
-      border: 1px solid white;
+      border: ${brushed ? "3px solid #1d4ed8" : "1px solid white"};
       box-shadow: 0 2px 4px rgba(0,0,0,0.3);
     "></div>`,
     iconSize: [size, size],
@@ -92,7 +98,12 @@ function ZoomAwareMarker({
   });
 
   return (
-    <Marker position={[station.lat, station.long]} icon={icon}>
+    <Marker
+      position={[station.lat, station.long]}
+      icon={icon}
+      zIndexOffset={brushed ? 1000 : 0}
+      eventHandlers={onClick ? { click: onClick } : undefined}
+    >
       <Popup>
         <div className="text-sm">
           <div className="font-semibold mb-1">{station.name}</div>
@@ -100,8 +111,17 @@ function ZoomAwareMarker({
           <div className="mt-2">
             <span className="font-medium">Visits: {visits}</span>
           </div>
+          {onClick && (
+            <div className="text-xs text-blue-700 mt-1">
+              {brushed
+                ? "Other panels only show rides from or to here. Click the marker again to clear."
+                : "Click the marker to only show rides from or to here in other panels."}
+            </div>
+          )}
           <div className="text-xs text-gray-500 mt-1">
-            {station.nbBikes} bikes available
+            {station.removalDate !== null
+              ? `Removed ${new Date(station.removalDate).toLocaleDateString()}`
+              : `${station.nbBikes} bikes available`}
           </div>
         </div>
       </Popup>
@@ -109,171 +129,28 @@ function ZoomAwareMarker({
   );
 }
 
-// Helper function to calculate distance between two lat/long points (Haversine formula)
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Radius of the Earth in km
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-// Match station by name similarity (fuzzy matching)
-function findStationByName(
-  address: string | null,
-  stations: Station[]
-): Station | null {
-  if (!address) return null;
-
-  const normalizedAddress = address.toLowerCase().trim();
-
-  // Try exact match first
-  for (const station of stations) {
-    const stationName = station.name.toLowerCase();
-    if (
-      normalizedAddress.includes(stationName) ||
-      stationName.includes(normalizedAddress)
-    ) {
-      return station;
-    }
-  }
-
-  // Try matching by terminal name if address contains numbers
-  const terminalMatch = normalizedAddress.match(/\d{6}/);
-  if (terminalMatch) {
-    const terminal = terminalMatch[0];
-    const station = stations.find((s) => s.terminalName === terminal);
-    if (station) return station;
-  }
-
-  // Try partial word matching
-  const addressWords = normalizedAddress
-    .split(/[,\s]+/)
-    .filter((w) => w.length > 2);
-  for (const station of stations) {
-    const stationWords = station.name.toLowerCase().split(/[,\s]+/);
-    const matchingWords = addressWords.filter((aw) =>
-      stationWords.some((sw) => sw.includes(aw) || aw.includes(sw))
-    );
-    // If at least 2 words match, consider it a match
-    if (matchingWords.length >= 2) {
-      return station;
-    }
-  }
-
-  return null;
-}
-
-// Parse address string to extract lat/long if available
-function parseAddress(
-  address: string | null
-): { lat: number; lon: number } | null {
-  if (!address) return null;
-
-  // Check if address contains coordinates pattern
-  const coordMatch = address.match(/(-?\d+\.?\d*),\s*(-?\d+\.?\d*)/);
-  if (coordMatch) {
-    return {
-      lat: parseFloat(coordMatch[1]),
-      lon: parseFloat(coordMatch[2]),
-    };
-  }
-
-  return null;
-}
-
-// Match a ride's start/end address to the nearest station
-function findNearestStation(
-  lat: number,
-  lon: number,
-  stations: Station[],
-  maxDistanceKm: number = 0.5 // 500 meters default
-): Station | null {
-  let nearest: Station | null = null;
-  let minDistance = maxDistanceKm;
-
-  for (const station of stations) {
-    const distance = calculateDistance(lat, lon, station.lat, station.long);
-    if (distance < minDistance) {
-      minDistance = distance;
-      nearest = station;
-    }
-  }
-
-  return nearest;
-}
-
 export default function VisitedStationsMap({
-  rides,
-  stations,
+  stationStats,
   selectedStations,
+  brushedStationId = null,
+  onStationClick,
 }: VisitedStationsMapProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showUnvisitedStations, setShowUnvisitedStations] = useState(true);
+  const { stations } = useStationsContext();
 
   const stationVisitCounts = useMemo(() => {
     const counts = new Map<string, number>();
-    const stationMap = new Map<string, Station>();
-
-    // Create a map of stations by ID for quick lookup
-    stations.forEach((station) => {
-      stationMap.set(station.id, station);
-    });
 
     // Count visits to each station
-    rides.forEach((ride) => {
-      // Try to match start address by name first
-      let startStation = findStationByName(ride.startAddress, stations);
-
-      // If name matching fails, try coordinates
-      if (!startStation && ride.startAddress) {
-        const startCoords = parseAddress(ride.startAddress);
-        if (startCoords) {
-          startStation = findNearestStation(
-            startCoords.lat,
-            startCoords.lon,
-            stations
-          );
-        }
-      }
-
-      if (startStation) {
-        counts.set(startStation.id, (counts.get(startStation.id) || 0) + 1);
-      }
-
-      // Try to match end address by name first
-      let endStation = findStationByName(ride.endAddress, stations);
-
-      // If name matching fails, try coordinates
-      if (!endStation && ride.endAddress) {
-        const endCoords = parseAddress(ride.endAddress);
-        if (endCoords) {
-          endStation = findNearestStation(
-            endCoords.lat,
-            endCoords.lon,
-            stations
-          );
-        }
-      }
-
-      if (endStation) {
-        counts.set(endStation.id, (counts.get(endStation.id) || 0) + 1);
+    stationStats.forEach(({ station, total }) => {
+      if (total > 0) {
+        counts.set(station.id, total);
       }
     });
 
     return counts;
-  }, [rides, stations]);
+  }, [stationStats]);
 
   // Calculate max visits for normalization
   const maxVisits = useMemo(() => {
@@ -292,10 +169,11 @@ export default function VisitedStationsMap({
       result.push(...selected);
     }
 
-    // Separately, show/hide unvisited stations based on toggle
+    // Separately, show/hide unvisited stations based on toggle (removed
+    // stations are only shown if you visited them)
     if (showUnvisitedStations) {
       const unvisited = stations.filter(
-        (s) => (stationVisitCounts.get(s.id) || 0) === 0
+        (s) => isCurrentStation(s) && (stationVisitCounts.get(s.id) || 0) === 0
       );
       result.push(...unvisited);
     }
@@ -414,6 +292,12 @@ export default function VisitedStationsMap({
               station={station}
               visits={visits}
               getColorForVisits={getColorForVisits}
+              brushed={station.id === brushedStationId}
+              onClick={
+                onStationClick && visits > 0
+                  ? () => onStationClick(station)
+                  : undefined
+              }
             />
           );
         })}
@@ -441,6 +325,8 @@ export default function VisitedStationsMap({
             <span className="text-yellow-600">yellow</span> (moderate) →{" "}
             <span className="text-green-600">green</span> (many visits). Hover
             over markers to see station names and visit counts.
+            {onStationClick &&
+              " Click a visited station to narrow every other panel to its rides."}
           </p>
         </div>
         <div className="flex items-center gap-4 ml-4">
@@ -0,0 +1,166 @@
+import { useState, useMemo, useEffect, useRef } from "react";
+import type { Station } from "../../schemas/station";
+import type { EnrichedRide } from "../../types/ride";
+import { computeYearInReview, getRideYears } from "../../utils/yearInReview";
+import { drawWrappedSlide, getWrappedSlides } from "../../utils/wrappedSlides";
+import { canvasToBlob } from "../../utils/canvas";
+import { downloadFile, getExportFileName } from "../../utils/download";
+
+interface YearInReviewProps {
+  rides: EnrichedRide[];
+  stations: Station[];
+}
+
+export default function YearInReview({ rides, stations }: YearInReviewProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [slideIndex, setSlideIndex] = useState(0);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const years = useMemo(() => getRideYears(rides), [rides]);
+  const year =
+    selectedYear !== null && years.includes(selectedYear)
+      ? selectedYear
+      : years[0] ?? null;
+
+  const slides = useMemo(
+    () =>
+      open && year !== null
+        ? getWrappedSlides(computeYearInReview(rides, stations, year))
+        : [],
+    [open, rides, stations, year]
+  );
+  const currentIndex = Math.min(slideIndex, Math.max(slides.length - 1, 0));
+  const slide = slides[currentIndex] ?? null;
+
+  useEffect(() => {
+    if (!canvasRef.current || !slide || year === null) return;
+    drawWrappedSlide(
+      canvasRef.current,
+      slide,
+      currentIndex,
+      slides.length,
+      year
+    );
+  }, [slide, currentIndex, slides.length, year]);
+
+  const goTo = (index: number) => {
+    setSlideIndex(Math.max(0, Math.min(index, slides.length - 1)));
+  };
+
+  const downloadSlide = async () => {
+    if (!canvasRef.current || !slide) return;
+    setSaveError(null);
+    try {
+      downloadFile(
+        await canvasToBlob(canvasRef.current),
+        getExportFileName(
+          `${year} wrapped ${currentIndex + 1} ${slide.id}`,
+          "png"
+        ),
+        "image/png"
+      );
+    } catch (err) {
+      console.error("Failed to save slide:", err);
+      setSaveError(
+        `Couldn't save the slide: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`
+      );
+    }
+  };
+
+  if (years.length === 0) return null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">
+            Year in Review
+          </h3>
+          <p className="text-gray-600 text-sm mt-1">
+            Step through the highlights of a year of riding, and save any slide
+            as an image.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={year ?? ""}
+            onChange={(e) => {
+              setSelectedYear(Number(e.target.value));
+              setSlideIndex(0);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            aria-label="Year"
+          >
+            {years.map((y) => (
+              <option key={y} value={y}>
+                {y}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setOpen((prev) => !prev)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            {open ? "Close" : `Play ${year} Wrapped`}
+          </button>
+        </div>
+      </div>
+
+      {open && slide && (
+        <div className="mt-6 flex flex-col items-center gap-4">
+          <canvas
+            ref={canvasRef}
+            tabIndex={0}
+            onClick={(e) => {
+              // Tap the left third to go back, anywhere else to go forward
+              const { left, width } = e.currentTarget.getBoundingClientRect();
+              goTo(
+                e.clientX - left < width / 3
+                  ? currentIndex - 1
+                  : currentIndex + 1
+              );
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "ArrowLeft") goTo(currentIndex - 1);
+              if (e.key === "ArrowRight") goTo(currentIndex + 1);
+            }}
+            className="h-[560px] w-auto max-w-full rounded-xl shadow-lg cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={`Slide ${currentIndex + 1} of ${slides.length}: ${
+              slide.eyebrow
+            } - ${slide.headline}`}
+          />
+          <div className="flex flex-wrap items-center justify-center gap-3">
+            <button
+              onClick={() => goTo(currentIndex - 1)}
+              disabled={currentIndex === 0}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg border border-gray-300 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ← Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              {currentIndex + 1} / {slides.length}
+            </span>
+            <button
+              onClick={() => goTo(currentIndex + 1)}
+              disabled={currentIndex === slides.length - 1}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg border border-gray-300 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next →
+            </button>
+            <button
+              onClick={downloadSlide}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+            >
+              Save slide as PNG
+            </button>
+          </div>
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { useMemo, type ReactNode } from "react";
+import { useStations } from "../hooks/useStations";
+import { buildStationIndex } from "../utils/stationIndex";
+import { StationsContext } from "./stationsContext";
+
+interface StationsProviderProps {
+  children: ReactNode;
+}
+
+// Loads the station list once and shares it (plus lookup indexes) with every
+// component underneath
+export default function StationsProvider({ children }: StationsProviderProps) {
+  const { stations, loading, error, source, updatedAt, refresh } =
+    useStations();
+
+  const index = useMemo(() => buildStationIndex(stations), [stations]);
+
+  const value = useMemo(
+    () => ({ stations, index, loading, error, source, updatedAt, refresh }),
+    [stations, index, loading, error, source, updatedAt, refresh]
+  );
+
+  return (
+    <StationsContext.Provider value={value}>
+      {children}
+    </StationsContext.Provider>
+  );
+}
@@ -0,0 +1,46 @@
+import { useMemo, type ReactNode } from "react";
+import { useTariffs } from "../hooks/useTariffs";
+import { TariffsContext } from "./tariffsContext";
+
+interface TariffsProviderProps {
+  children: ReactNode;
+}
+
+// Owns the saved tariffs so the cost simulator and backups edit the same
+// state instead of each keeping their own copy
+export default function TariffsProvider({ children }: TariffsProviderProps) {
+  const {
+    tariffs,
+    loadError,
+    updateRuleSet,
+    addRuleSet,
+    removeRuleSet,
+    resetTariffs,
+    replaceTariffs,
+  } = useTariffs();
+
+  const value = useMemo(
+    () => ({
+      tariffs,
+      loadError,
+      updateRuleSet,
+      addRuleSet,
+      removeRuleSet,
+      resetTariffs,
+      replaceTariffs,
+    }),
+    [
+      tariffs,
+      loadError,
+      updateRuleSet,
+      addRuleSet,
+      removeRuleSet,
+      resetTariffs,
+      replaceTariffs,
+    ]
+  );
+
+  return (
+    <TariffsContext.Provider value={value}>{children}</TariffsContext.Provider>
+  );
+}
@@ -0,0 +1,16 @@
+import { createContext } from "react";
+import type { Station } from "../schemas/station";
+import type { StationsSource } from "../hooks/useStations";
+import type { StationIndex } from "../utils/stationIndex";
+
+export interface StationsContextValue {
+  stations: Station[];
+  index: StationIndex;
+  loading: boolean;
+  error: string | null;
+  source: StationsSource | null;
+  updatedAt: number | null;
+  refresh: () => void;
+}
+
+export const StationsContext = createContext<StationsContextValue | null>(null);
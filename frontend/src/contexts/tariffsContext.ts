@@ -0,0 +1,6 @@
+import { createContext } from "react";
+import type { UseTariffsResult } from "../hooks/useTariffs";
+
+export type TariffsContextValue = UseTariffsResult;
+
+export const TariffsContext = createContext<TariffsContextValue | null>(null);
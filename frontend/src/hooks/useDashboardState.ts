@@ -0,0 +1,74 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import {
+  formatDashboardHash,
+  parseDashboardHash,
+  type DashboardState,
+} from "../utils/dashboardState";
+
+// Changes this close together (typing in a field, stepping through a select)
+// share one history entry, so back doesn't undo them a keystroke at a time
+const HISTORY_COALESCE_MS = 1000;
+
+const listeners = new Set<() => void>();
+let lastChangeAt = 0;
+let cached: { hash: string; state: DashboardState } | null = null;
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("popstate", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("popstate", listener);
+  };
+}
+
+const getHash = () => window.location.hash;
+
+// Parse the hash, reusing unchanged parts of the previous state so that
+// memoised work downstream (filtering, stats) only reruns when its part does
+function readState(hash: string): DashboardState {
+  if (cached?.hash === hash) return cached.state;
+  const next = parseDashboardHash(hash);
+  const previous = cached?.state;
+  if (previous) {
+    (Object.keys(next) as (keyof DashboardState)[]).forEach((key) => {
+      if (JSON.stringify(next[key]) === JSON.stringify(previous[key])) {
+        Object.assign(next, { [key]: previous[key] });
+      }
+    });
+  }
+  cached = { hash, state: next };
+  return next;
+}
+
+// The dashboard view, stored in the URL hash
+export function useDashboardState(): [
+  DashboardState,
+  (changes: Partial<DashboardState>) => void
+] {
+  const hash = useSyncExternalStore(subscribe, getHash);
+  const state = useMemo(() => readState(hash), [hash]);
+
+  const update = useCallback((changes: Partial<DashboardState>) => {
+    // Start from the URL rather than a render's state, so several updates
+    // in one event all apply
+    const current = window.location.hash;
+    const nextHash = formatDashboardHash({
+      ...readState(current),
+      ...changes,
+    });
+    if (nextHash === current) return;
+
+    const url = nextHash || window.location.pathname + window.location.search;
+    const now = Date.now();
+    if (now - lastChangeAt < HISTORY_COALESCE_MS) {
+      window.history.replaceState(null, "", url);
+    } else {
+      window.history.pushState(null, "", url);
+    }
+    lastChangeAt = now;
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  return [state, update];
+}
@@ -0,0 +1,113 @@
+import { useMemo } from "react";
+import type { EnrichedRide } from "../types/ride";
+import type { Station } from "../schemas/station";
+import {
+  computeRideStats,
+  computeRouteStats,
+  computeStationStats,
+  type RideStats,
+  type RouteStats,
+  type StationStats,
+} from "../utils/rideAggregates";
+import {
+  countActiveFilters,
+  filterRides,
+  type RideFilters,
+} from "../utils/rideFilters";
+import {
+  BRUSH_KINDS,
+  applyBrushes,
+  type Brush,
+  type BrushKind,
+} from "../utils/brushes";
+
+interface FilteredAnalyticsInput {
+  enrichedRides: EnrichedRide[] | null;
+  stats: RideStats | null;
+  stationStats: StationStats[] | null;
+  routeStats: RouteStats[] | null;
+}
+
+interface FilteredAnalytics {
+  rides: EnrichedRide[] | null;
+  stats: RideStats | null;
+  stationStats: StationStats[] | null;
+  routeStats: RouteStats[] | null;
+  // What a brushed panel shows: every brush applies except its own, so the
+  // rest of its bars or markers stay visible to pick from
+  ridesExceptBrush: Record<BrushKind, EnrichedRide[] | null>;
+  stationStatsExceptBrush: StationStats[] | null;
+}
+
+// Apply the filter bar and any brushes to the analytics worker's results.
+// Station matching stays in the worker; only the cheap aggregations are
+// redone here, and only while a filter or brush is active.
+export function useFilteredAnalytics(
+  analytics: FilteredAnalyticsInput,
+  stations: Station[],
+  filters: RideFilters,
+  brushes: Brush[]
+): FilteredAnalytics {
+  const { enrichedRides, stats, stationStats, routeStats } = analytics;
+  const active = countActiveFilters(filters) > 0;
+
+  const filtered = useMemo(() => {
+    if (!active || !enrichedRides) {
+      return { rides: enrichedRides, stats, stationStats, routeStats };
+    }
+    const rides = filterRides(enrichedRides, filters);
+    return {
+      rides,
+      stats: computeRideStats(rides, stations),
+      stationStats: computeStationStats(rides, stations),
+      routeStats: computeRouteStats(rides),
+    };
+  }, [
+    active,
+    enrichedRides,
+    stats,
+    stationStats,
+    routeStats,
+    stations,
+    filters,
+  ]);
+
+  return useMemo(() => {
+    const filteredRides = filtered.rides;
+    const rides = filteredRides && applyBrushes(filteredRides, brushes);
+    const isBrushed = (kind: BrushKind) =>
+      brushes.some((brush) => brush.kind === kind);
+
+    const ridesExceptBrush = Object.fromEntries(
+      BRUSH_KINDS.map((kind) => [
+        kind,
+        filteredRides && isBrushed(kind)
+          ? applyBrushes(
+              filteredRides,
+              brushes.filter((brush) => brush.kind !== kind)
+            )
+          : rides,
+      ])
+    ) as Record<BrushKind, EnrichedRide[] | null>;
+
+    if (brushes.length === 0 || !rides) {
+      return {
+        ...filtered,
+        ridesExceptBrush,
+        stationStatsExceptBrush: filtered.stationStats,
+      };
+    }
+
+    const brushedStationStats = computeStationStats(rides, stations);
+    return {
+      rides,
+      stats: computeRideStats(rides, stations),
+      stationStats: brushedStationStats,
+      routeStats: computeRouteStats(rides),
+      ridesExceptBrush,
+      stationStatsExceptBrush: isBrushed("station")
+        ? computeStationStats(ridesExceptBrush.station ?? [], stations)
+        : brushedStationStats,
+    };
+  }, [filtered, brushes, stations]);
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect } from "react";
+import type { EnrichedRide, Ride } from "../types/ride";
+import type { Station } from "../schemas/station";
+import type {
+  StationMatches,
+  StationOverrides,
+} from "../utils/stationMatching";
+import type {
+  RideStats,
+  RouteStats,
+  StationStats,
+} from "../utils/rideAggregates";
+import {
+  runAnalyticsPipeline,
+  type AnalyticsMessage,
+  type AnalyticsStage,
+} from "../utils/analyticsPipeline";
+
+export interface AnalyticsProgress {
+  stage: AnalyticsStage;
+  completed: number;
+  total: number;
+}
+
+interface RideAnalytics {
+  stationMatches: StationMatches | null;
+  enrichedRides: EnrichedRide[] | null;
+  stats: RideStats | null;
+  stationStats: StationStats[] | null;
+  routeStats: RouteStats[] | null;
+  progress: AnalyticsProgress | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const EMPTY_ANALYTICS: RideAnalytics = {
+  stationMatches: null,
+  enrichedRides: null,
+  stats: null,
+  stationStats: null,
+  routeStats: null,
+  progress: null,
+  loading: true,
+  error: null,
+};
+
+function applyMessage(
+  analytics: RideAnalytics,
+  message: AnalyticsMessage
+): RideAnalytics {
+  switch (message.type) {
+    case "start":
+      // Keep the previous results on screen until new ones arrive
+      return { ...analytics, progress: null, loading: true, error: null };
+    case "progress":
+      return {
+        ...analytics,
+        progress: {
+          stage: message.stage,
+          completed: message.completed,
+          total: message.total,
+        },
+      };
+    case "rides":
+      return {
+        ...analytics,
+        stationMatches: message.stationMatches,
+        enrichedRides: message.enrichedRides,
+      };
+    case "stats":
+      return { ...analytics, stats: message.stats };
+    case "stationStats":
+      return { ...analytics, stationStats: message.stationStats };
+    case "routeStats":
+      return { ...analytics, routeStats: message.routeStats };
+    case "done":
+      return { ...analytics, progress: null, loading: false };
+    case "error":
+      return {
+        ...analytics,
+        progress: null,
+        loading: false,
+        error: message.message,
+      };
+  }
+}
+
+// Match, enrich and aggregate rides in a Web Worker, streaming results back
+// as each stage completes. Falls back to the main thread if workers aren't
+// available.
+export function useRideAnalytics(
+  rides: Ride[],
+  stations: Station[],
+  overrides: StationOverrides
+): RideAnalytics {
+  const [analytics, setAnalytics] = useState<RideAnalytics>(EMPTY_ANALYTICS);
+
+  useEffect(() => {
+    let cancelled = false;
+    const handleMessage = (message: AnalyticsMessage) => {
+      if (!cancelled) {
+        setAnalytics((prev) => applyMessage(prev, message));
+      }
+    };
+    const request = { rides, stations, overrides };
+
+    if (typeof Worker === "undefined") {
+      const timeout = setTimeout(() =>
+        runAnalyticsPipeline(request, handleMessage)
+      );
+      return () => {
+        cancelled = true;
+        clearTimeout(timeout);
+      };
+    }
+
+    const worker = new Worker(
+      new URL("../workers/analytics.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.onmessage = (event: MessageEvent<AnalyticsMessage>) =>
+      handleMessage(event.data);
+    worker.onerror = (event) => {
+      console.error("Analytics worker failed:", event.message);
+      handleMessage({
+        type: "error",
+        message: event.message || "Failed to analyse rides",
+      });
+    };
+    worker.postMessage(request);
+
+    return () => {
+      cancelled = true;
+      worker.terminate();
+    };
+  }, [rides, stations, overrides]);
+
+  return analytics;
+}
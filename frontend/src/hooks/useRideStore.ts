@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Ride } from "../types/ride";
+import {
+  loadRides,
+  saveRides,
+  upsertRides,
+  sortRides,
+  clearRides,
+  getStorageEstimate,
+  type RideStoreMeta,
+  type StorageEstimate,
+} from "../utils/rideStore";
+import { applyRideChanges, type RideChanges } from "../utils/mergeRides";
+
+interface UseRideStoreResult {
+  rides: Ride[];
+  meta: RideStoreMeta | null; // null when nothing is saved
+  loading: boolean;
+  loadError: string | null; // saved rides couldn't be read
+  saveError: string | null; // the latest change couldn't be saved
+  storageEstimate: StorageEstimate | null;
+  replaceRides: (rides: Ride[]) => Promise<void>;
+  mergeRides: (changes: RideChanges) => Promise<void>;
+  clearSavedRides: () => Promise<void>;
+}
+
+export function useRideStore(): UseRideStoreResult {
+  const [rides, setRides] = useState<Ride[]>([]);
+  const [meta, setMeta] = useState<RideStoreMeta | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] =
+    useState<StorageEstimate | null>(null);
+
+  const refreshEstimate = useCallback(async () => {
+    setStorageEstimate(await getStorageEstimate());
+  }, []);
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const stored = await loadRides();
+        if (stored) {
+          setRides(stored.rides);
+          setMeta({ savedAt: stored.savedAt, rideCount: stored.rideCount });
+        }
+      } catch (err) {
+        console.error("Failed to load saved rides:", err);
+        setLoadError(
+          err instanceof Error ? err.message : "Failed to load saved rides"
+        );
+      } finally {
+        setLoading(false);
+      }
+      await refreshEstimate();
+    }
+
+    load();
+  }, [refreshEstimate]);
+
+  // Rides are kept in memory even if saving fails, so the current session
+  // still works. The error is rethrown for the caller to report.
+  const replaceRides = useCallback(
+    async (newRides: Ride[]) => {
+      setRides(newRides);
+      try {
+        setMeta(await saveRides(newRides));
+        setSaveError(null);
+      } catch (err) {
+        console.error("Failed to save rides:", err);
+        setSaveError(
+          err instanceof Error ? err.message : "Failed to save rides"
+        );
+        throw err;
+      } finally {
+        await refreshEstimate();
+      }
+    },
+    [refreshEstimate]
+  );
+
+  const mergeRides = useCallback(
+    async (changes: RideChanges) => {
+      setRides((prev) => sortRides(applyRideChanges(prev, changes)));
+      try {
+        setMeta(await upsertRides(changes.rides, changes.removedKeys));
+        setSaveError(null);
+      } catch (err) {
+        console.error("Failed to save rides:", err);
+        setSaveError(
+          err instanceof Error ? err.message : "Failed to save rides"
+        );
+        throw err;
+      } finally {
+        await refreshEstimate();
+      }
+    },
+    [refreshEstimate]
+  );
+
+  const clearSavedRides = useCallback(async () => {
+    await clearRides();
+    setRides([]);
+    setMeta(null);
+    await refreshEstimate();
+  }, [refreshEstimate]);
+
+  return {
+    rides,
+    meta,
+    loading,
+    loadError,
+    saveError,
+    storageEstimate,
+    replaceRides,
+    mergeRides,
+    clearSavedRides,
+  };
+}
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from "react";
+import { StationOverridesSchema } from "../schemas/stationOverrides";
+import type { StationOverrides } from "../utils/stationMatching";
+
+const STORAGE_KEY = "santander-cycle-station-mappings";
+
+interface UseStationOverridesResult {
+  overrides: StationOverrides;
+  pinStation: (address: string, stationId: string) => void;
+  unpinStation: (address: string) => void;
+  replaceOverrides: (overrides: StationOverrides) => void;
+}
+
+export function useStationOverrides(): UseStationOverridesResult {
+  const [overrides, setOverrides] = useState<StationOverrides>(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      try {
+        const validationResult = StationOverridesSchema.safeParse(
+          JSON.parse(stored)
+        );
+        if (validationResult.success) {
+          return validationResult.data;
+        }
+      } catch {
+        // Invalid stored data, ignore
+      }
+    }
+    return {};
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    } catch (err) {
+      console.error("Failed to save station mappings:", err);
+    }
+  }, [overrides]);
+
+  const pinStation = useCallback((address: string, stationId: string) => {
+    setOverrides((prev) => ({ ...prev, [address]: stationId }));
+  }, []);
+
+  const unpinStation = useCallback((address: string) => {
+    setOverrides((prev) => {
+      const next = { ...prev };
+      delete next[address];
+      return next;
+    });
+  }, []);
+
+  const replaceOverrides = useCallback((next: StationOverrides) => {
+    setOverrides(next);
+  }, []);
+
+  return { overrides, pinStation, unpinStation, replaceOverrides };
+}
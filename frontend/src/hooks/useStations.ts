@@ -1,96 +1,185 @@
-import { useState, useEffect } from "react";
-import { StationsArraySchema, type Station } from "../schemas/station";
+import { useState, useEffect, useCallback } from "react";
+import {
+  StationsArraySchema,
+  StationSnapshotSchema,
+  type Station,
+  type StationSnapshot,
+} from "../schemas/station";
+import { mergeStations } from "../utils/stationRegistry";
+import { getValue, putValue, STATION_CACHE_STORE } from "../utils/db";
+
+// Where the station list came from
+export type StationsSource = "live" | "cache" | "snapshot";
 
 interface UseStationsResult {
   stations: Station[];
   loading: boolean;
   error: string | null;
+  source: StationsSource | null;
+  updatedAt: number | null; // timestamp of the data in use
+  refresh: () => void;
 }
 
 const STATIONS_URL =
   "https://tfl.gov.uk/tfl/syndication/feeds/cycle-hire/livecyclehireupdates.xml";
 
+const SNAPSHOT_URL = `${import.meta.env.BASE_URL}data/stations-snapshot.json`;
+
+const CACHE_KEY = "latest";
+
+function parseStationsXml(xmlText: string): Station[] {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(xmlText, "text/xml");
+
+  // Parse XML to extract stations
+  const stationElements = xmlDoc.querySelectorAll("station");
+  const parsedStations: Station[] = [];
+
+  stationElements.forEach((stationEl) => {
+    const getTextContent = (tagName: string): string => {
+      const element = stationEl.querySelector(tagName);
+      return element?.textContent?.trim() || "";
+    };
+
+    const getNumberContent = (tagName: string): number => {
+      const text = getTextContent(tagName);
+      return text ? parseFloat(text) : 0;
+    };
+
+    const getBooleanContent = (tagName: string): boolean => {
+      const text = getTextContent(tagName);
+      return text === "true";
+    };
+
+    const getNumberOrNull = (tagName: string): number | null => {
+      const text = getTextContent(tagName);
+      return text ? parseFloat(text) : null;
+    };
+
+    const station: Station = {
+      id: getTextContent("id"),
+      name: getTextContent("name"),
+      terminalName: getTextContent("terminalName"),
+      lat: getNumberContent("lat"),
+      long: getNumberContent("long"),
+      installed: getBooleanContent("installed"),
+      locked: getBooleanContent("locked"),
+      installDate: getNumberOrNull("installDate"),
+      removalDate: getNumberOrNull("removalDate"),
+      temporary: getBooleanContent("temporary"),
+      nbBikes: getNumberContent("nbBikes"),
+      nbStandardBikes: getNumberContent("nbStandardBikes"),
+      nbEBikes: getNumberContent("nbEBikes"),
+      nbEmptyDocks: getNumberContent("nbEmptyDocks"),
+      nbDocks: getNumberContent("nbDocks"),
+    };
+
+    parsedStations.push(station);
+  });
+
+  // Validate with Zod
+  return StationsArraySchema.parse(parsedStations);
+}
+
+async function fetchLiveStations(): Promise<StationSnapshot> {
+  const response = await fetch(STATIONS_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch stations: ${response.statusText}`);
+  }
+  const stations = parseStationsXml(await response.text());
+  if (stations.length === 0) {
+    throw new Error("Station feed contained no stations");
+  }
+  return { fetchedAt: Date.now(), stations };
+}
+
+async function loadCachedStations(): Promise<StationSnapshot | null> {
+  try {
+    const cached = await getValue(STATION_CACHE_STORE, CACHE_KEY);
+    const validationResult = StationSnapshotSchema.safeParse(cached);
+    if (validationResult.success && validationResult.data.stations.length) {
+      return validationResult.data;
+    }
+  } catch (err) {
+    console.warn("Failed to read cached stations:", err);
+  }
+  return null;
+}
+
+async function loadSnapshotStations(): Promise<StationSnapshot | null> {
+  try {
+    const response = await fetch(SNAPSHOT_URL);
+    if (!response.ok) return null;
+    const validationResult = StationSnapshotSchema.safeParse(
+      await response.json()
+    );
+    if (validationResult.success && validationResult.data.stations.length) {
+      return validationResult.data;
+    }
+  } catch (err) {
+    console.warn("Failed to load station snapshot:", err);
+  }
+  return null;
+}
+
 export function useStations(): UseStationsResult {
   const [stations, setStations] = useState<Station[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [source, setSource] = useState<StationsSource | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
 
   useEffect(() => {
     async function fetchStations() {
+      setLoading(true);
+      setError(null);
+
+      const apply = (snapshot: StationSnapshot, from: StationsSource) => {
+        // Add removed/renamed stations from the bundled historical registry
+        // so old rides can still be matched
+        setStations(mergeStations(snapshot.stations));
+        setSource(from);
+        setUpdatedAt(snapshot.fetchedAt);
+      };
+
       try {
-        setLoading(true);
-        setError(null);
+        const live = await fetchLiveStations();
+        apply(live, "live");
+        // Keep a copy for offline use - failure here isn't fatal
+        putValue(STATION_CACHE_STORE, CACHE_KEY, live).catch((err) =>
+          console.warn("Failed to cache stations:", err)
+        );
+        return;
+      } catch (err) {
+        console.error("Error fetching stations:", err);
 
-        const response = await fetch(STATIONS_URL);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch stations: ${response.statusText}`);
+        // Fall back to the last successful feed, then the bundled snapshot
+        const cached = await loadCachedStations();
+        if (cached) {
+          apply(cached, "cache");
+          return;
+        }
+        const snapshot = await loadSnapshotStations();
+        if (snapshot) {
+          apply(snapshot, "snapshot");
+          return;
         }
 
-        const xmlText = await response.text();
-        const parser = new DOMParser();
-        const xmlDoc = parser.parseFromString(xmlText, "text/xml");
-
-        // Parse XML to extract stations
-        const stationElements = xmlDoc.querySelectorAll("station");
-        const parsedStations: Station[] = [];
-
-        stationElements.forEach((stationEl) => {
-          const getTextContent = (tagName: string): string => {
-            const element = stationEl.querySelector(tagName);
-            return element?.textContent?.trim() || "";
-          };
-
-          const getNumberContent = (tagName: string): number => {
-            const text = getTextContent(tagName);
-            return text ? parseFloat(text) : 0;
-          };
-
-          const getBooleanContent = (tagName: string): boolean => {
-            const text = getTextContent(tagName);
-            return text === "true";
-          };
-
-          const getNumberOrNull = (tagName: string): number | null => {
-            const text = getTextContent(tagName);
-            return text ? parseFloat(text) : null;
-          };
-
-          const station: Station = {
-            id: getTextContent("id"),
-            name: getTextContent("name"),
-            terminalName: getTextContent("terminalName"),
-            lat: getNumberContent("lat"),
-            long: getNumberContent("long"),
-            installed: getBooleanContent("installed"),
-            locked: getBooleanContent("locked"),
-            installDate: getNumberOrNull("installDate"),
-            removalDate: getNumberOrNull("removalDate"),
-            temporary: getBooleanContent("temporary"),
-            nbBikes: getNumberContent("nbBikes"),
-            nbStandardBikes: getNumberContent("nbStandardBikes"),
-            nbEBikes: getNumberContent("nbEBikes"),
-            nbEmptyDocks: getNumberContent("nbEmptyDocks"),
-            nbDocks: getNumberContent("nbDocks"),
-          };
-
-          parsedStations.push(station);
-        });
-
-        // Validate with Zod
-        const validatedStations = StationsArraySchema.parse(parsedStations);
-        setStations(validatedStations);
-      } catch (err) {
         setError(
           err instanceof Error ? err.message : "Failed to fetch stations"
         );
-        console.error("Error fetching stations:", err);
       } finally {
         setLoading(false);
       }
     }
 
     fetchStations();
+  }, [reloadCount]);
+
+  const refresh = useCallback(() => {
+    setReloadCount((count) => count + 1);
   }, []);
 
-  return { stations, loading, error };
+  return { stations, loading, error, source, updatedAt, refresh };
 }
@@ -0,0 +1,13 @@
+import { useContext } from "react";
+import {
+  StationsContext,
+  type StationsContextValue,
+} from "../contexts/stationsContext";
+
+export function useStationsContext(): StationsContextValue {
+  const context = useContext(StationsContext);
+  if (!context) {
+    throw new Error("useStationsContext must be used within StationsProvider");
+  }
+  return context;
+}
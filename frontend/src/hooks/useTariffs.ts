@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback, type SetStateAction } from "react";
+import { TariffsSchema, type TariffRuleSet } from "../schemas/tariffs";
+import { DEFAULT_TARIFFS } from "../utils/tariffs";
+
+const STORAGE_KEY = "santander-cycle-tariffs";
+// Saved tariffs that couldn't be read are set aside here before the first
+// save replaces them
+const INVALID_STORAGE_KEY = "santander-cycle-tariffs-invalid";
+
+export interface UseTariffsResult {
+  tariffs: TariffRuleSet[];
+  loadError: string | null; // why saved tariffs were replaced by the defaults
+  updateRuleSet: (index: number, changes: Partial<TariffRuleSet>) => void;
+  addRuleSet: () => void;
+  removeRuleSet: (index: number) => void;
+  resetTariffs: () => void;
+  replaceTariffs: (tariffs: TariffRuleSet[]) => void;
+}
+
+interface StoredTariffs {
+  tariffs: TariffRuleSet[];
+  loadError: string | null;
+  invalidValue: string | null; // the saved value that couldn't be read
+}
+
+function readStoredTariffs(): StoredTariffs {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return { tariffs: DEFAULT_TARIFFS, loadError: null, invalidValue: null };
+  }
+
+  let loadError: string;
+  try {
+    const validationResult = TariffsSchema.safeParse(JSON.parse(stored));
+    if (validationResult.success) {
+      return {
+        tariffs: validationResult.data,
+        loadError: null,
+        invalidValue: null,
+      };
+    }
+    loadError =
+      validationResult.error.issues[0]?.message || "Invalid data structure";
+  } catch (err) {
+    loadError = err instanceof Error ? err.message : "Invalid JSON";
+  }
+  console.warn("Discarded invalid saved tariffs:", loadError);
+  return { tariffs: DEFAULT_TARIFFS, loadError, invalidValue: stored };
+}
+
+export function useTariffs(): UseTariffsResult {
+  const [stored] = useState(readStoredTariffs);
+  const [tariffs, setTariffs] = useState<TariffRuleSet[]>(stored.tariffs);
+  // Only save once the tariffs are edited or restored, so opening the page
+  // doesn't overwrite unreadable saved tariffs with the defaults
+  const [changed, setChanged] = useState(false);
+
+  useEffect(() => {
+    if (!changed) return;
+    try {
+      if (stored.invalidValue !== null) {
+        localStorage.setItem(INVALID_STORAGE_KEY, stored.invalidValue);
+      }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(tariffs));
+    } catch (err) {
+      console.error("Failed to save tariffs:", err);
+    }
+  }, [changed, stored, tariffs]);
+
+  const changeTariffs = useCallback(
+    (update: SetStateAction<TariffRuleSet[]>) => {
+      setTariffs(update);
+      setChanged(true);
+    },
+    []
+  );
+
+  const updateRuleSet = useCallback(
+    (index: number, changes: Partial<TariffRuleSet>) => {
+      changeTariffs((prev) =>
+        prev.map((ruleSet, i) =>
+          i === index ? { ...ruleSet, ...changes } : ruleSet
+        )
+      );
+    },
+    [changeTariffs]
+  );
+
+  // New rule sets start as a copy of the latest one, effective today
+  const addRuleSet = useCallback(() => {
+    changeTariffs((prev) => {
+      const latest = prev.reduce((a, b) => (b.validFrom > a.validFrom ? b : a));
+      const today = new Date();
+      const validFrom = `${today.getFullYear()}-${String(
+        today.getMonth() + 1
+      ).padStart(2, "0")}-${String(today.getDate()).padStart(2, "0")}`;
+      return [...prev, { ...latest, name: "New prices", validFrom }];
+    });
+  }, [changeTariffs]);
+
+  // At least one rule set is always kept
+  const removeRuleSet = useCallback(
+    (index: number) => {
+      changeTariffs((prev) =>
+        prev.length > 1 ? prev.filter((_, i) => i !== index) : prev
+      );
+    },
+    [changeTariffs]
+  );
+
+  const resetTariffs = useCallback(() => {
+    changeTariffs(DEFAULT_TARIFFS);
+  }, [changeTariffs]);
+
+  const replaceTariffs = useCallback(
+    (next: TariffRuleSet[]) => {
+      changeTariffs(next);
+    },
+    [changeTariffs]
+  );
+
+  return {
+    tariffs,
+    loadError: stored.loadError,
+    updateRuleSet,
+    addRuleSet,
+    removeRuleSet,
+    resetTariffs,
+    replaceTariffs,
+  };
+}
@@ -0,0 +1,13 @@
+import { useContext } from "react";
+import {
+  TariffsContext,
+  type TariffsContextValue,
+} from "../contexts/tariffsContext";
+
+export function useTariffsContext(): TariffsContextValue {
+  const context = useContext(TariffsContext);
+  if (!context) {
+    throw new Error("useTariffsContext must be used within TariffsProvider");
+  }
+  return context;
+}
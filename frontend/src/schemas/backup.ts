@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const BACKUP_FILE_TYPE = "santander-cycle-stats-backup";
+
+// A full backup: the persisted data plus a checksum to catch files that were
+// truncated or edited by hand
+export const BackupFileSchema = z.object({
+  type: z.literal(BACKUP_FILE_TYPE),
+  createdAt: z.number(), // timestamp
+  checksum: z.string(), // hex SHA-256 of `JSON.stringify(data)`
+  data: z.unknown(), // persisted data in any format version
+});
+
+// Export TypeScript types inferred from Zod schemas
+export type BackupFile = z.infer<typeof BackupFileSchema>;
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+export const HistoricalStationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  terminalName: z.string(),
+  lat: z.number(),
+  long: z.number(),
+  installDate: z.number().nullable(), // ms since epoch
+  removalDate: z.number().nullable(), // ms since epoch
+});
+
+export const HistoricalStationsDatasetSchema = z.object({
+  version: z.number(),
+  updatedAt: z.string(),
+  stations: z.array(HistoricalStationSchema),
+});
+
+// Export TypeScript types inferred from Zod schemas
+export type HistoricalStation = z.infer<typeof HistoricalStationSchema>;
+export type HistoricalStationsDataset = z.infer<
+  typeof HistoricalStationsDatasetSchema
+>;
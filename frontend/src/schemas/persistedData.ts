@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { StationOverridesSchema } from "./stationOverrides";
+import { TariffsSchema } from "./tariffs";
+
+// Every format the saved ride data has been written in. Rides are kept as
+// `unknown` here and validated one by one with `validateRides`, so a single
+// malformed ride can't make the whole history unreadable.
+
+// Version 0: a bare array of rides
+export const PersistedDataV0Schema = z.array(z.unknown());
+
+// Version 1: the array wrapped with save metadata
+export const PersistedDataV1Schema = z.object({
+  rides: z.array(z.unknown()),
+  savedAt: z.number().optional(), // timestamp
+  rideCount: z.number().optional(),
+});
+
+// Version 2: an explicit version number
+export const PersistedDataV2Schema = z.object({
+  version: z.literal(2),
+  savedAt: z.number(), // timestamp
+  rides: z.array(z.unknown()),
+});
+
+// Version 3: adds the user's address -> station mappings
+export const PersistedDataV3Schema = z.object({
+  version: z.literal(3),
+  savedAt: z.number(), // timestamp
+  rides: z.array(z.unknown()),
+  stationOverrides: StationOverridesSchema,
+});
+
+// Version 4: adds the cost simulator's tariffs. New fields should be added
+// in a new version with a migration from this one.
+export const PersistedDataV4Schema = z.object({
+  version: z.literal(4),
+  savedAt: z.number(), // timestamp
+  rides: z.array(z.unknown()),
+  stationOverrides: StationOverridesSchema,
+  tariffs: TariffsSchema.nullable(), // null in data saved before version 4
+});
+
+export const PersistedDataSchema = PersistedDataV4Schema;
+
+// Export TypeScript types inferred from Zod schemas
+export type PersistedDataV0 = z.infer<typeof PersistedDataV0Schema>;
+export type PersistedDataV1 = z.infer<typeof PersistedDataV1Schema>;
+export type PersistedDataV2 = z.infer<typeof PersistedDataV2Schema>;
+export type PersistedDataV3 = z.infer<typeof PersistedDataV3Schema>;
+export type PersistedData = z.infer<typeof PersistedDataSchema>;
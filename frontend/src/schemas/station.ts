@@ -20,5 +20,12 @@ export const StationSchema = z.object({
 
 export const StationsArraySchema = z.array(StationSchema);
 
+// A saved copy of the live feed (IndexedDB cache or bundled snapshot)
+export const StationSnapshotSchema = z.object({
+  fetchedAt: z.number().nullable(), // timestamp
+  stations: StationsArraySchema,
+});
+
 // Export TypeScript types inferred from Zod schemas
 export type Station = z.infer<typeof StationSchema>;
+export type StationSnapshot = z.infer<typeof StationSnapshotSchema>;
@@ -0,0 +1,4 @@
+import { z } from "zod";
+
+// Manual address -> station id mappings pinned by the user
+export const StationOverridesSchema = z.record(z.string(), z.string());
@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+// A plan's up-front price and the free time each ride gets under it
+export const TariffPlanSchema = z.object({
+  feePence: z.number().min(0),
+  includedMinutes: z.number().positive(),
+});
+
+// Pay as you go is charged per ride, or once per day for the old 24-hour
+// access fee
+export const PayAsYouGoPlanSchema = TariffPlanSchema.extend({
+  chargedPer: z.enum(["ride", "day"]),
+});
+
+// Prices in effect from `validFrom` until the next rule set's date
+export const TariffRuleSetSchema = z.object({
+  name: z.string(),
+  validFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD
+  payAsYouGo: PayAsYouGoPlanSchema,
+  dayPass: TariffPlanSchema.nullable(), // null when not on sale
+  monthly: TariffPlanSchema.nullable(),
+  annual: TariffPlanSchema.nullable(),
+  extraPence: z.number().min(0), // charged per started block past the free time
+  extraBlockMinutes: z.number().positive(),
+  eBikeSurchargePence: z.number().min(0), // per e-bike ride, on every plan
+});
+
+export const TariffsSchema = z.array(TariffRuleSetSchema).min(1);
+
+// Export TypeScript types inferred from Zod schemas
+export type TariffPlan = z.infer<typeof TariffPlanSchema>;
+export type PayAsYouGoPlan = z.infer<typeof PayAsYouGoPlanSchema>;
+export type TariffRuleSet = z.infer<typeof TariffRuleSetSchema>;
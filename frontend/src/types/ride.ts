@@ -1,5 +1,8 @@
 // Types for ride data from Santander Cycle API
 
+import type { Ride } from "../schemas/ride";
+import type { Station } from "../schemas/station";
+
 export interface RideSummary {
   rideId: string;
   startTimeMs: string;
@@ -14,3 +17,28 @@ export interface RideSummary {
 // Main Ride type is now inferred from Zod schema in schemas/ride.ts
 // Re-export for convenience
 export type { Ride, PriceBreakdownItem, PaymentMethod } from "../schemas/ride";
+
+// Local-time calendar fields for a ride's start
+export interface RideDateParts {
+  year: number;
+  month: number; // 0-indexed
+  day: number;
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+  dateKey: string; // YYYY-MM-DD
+  monthKey: string; // YYYY-MM
+}
+
+// A ride with its derived fields computed once per dataset
+export interface EnrichedRide extends Ride {
+  startStation: Station | null;
+  endStation: Station | null;
+  durationMs: number | null;
+  durationMinutes: number | null; // rounded
+  distanceKm: number | null; // straight line between stations
+  pricePence: number | null;
+  isEBike: boolean;
+  startDate: Date | null;
+  dateParts: RideDateParts | null;
+}
@@ -0,0 +1,103 @@
+import type { EnrichedRide, Ride } from "../types/ride";
+import type { Station } from "../schemas/station";
+import { buildStationIndex } from "./stationIndex";
+import {
+  resolveRideStations,
+  type StationMatches,
+  type StationOverrides,
+} from "./stationMatching";
+import { enrichRide } from "./enrichRides";
+import {
+  computeRideStats,
+  computeRouteStats,
+  computeStationStats,
+  type RideStats,
+  type RouteStats,
+  type StationStats,
+} from "./rideAggregates";
+
+// How many rides to process between progress reports
+const PROGRESS_INTERVAL = 250;
+
+export interface AnalyticsRequest {
+  rides: Ride[];
+  stations: Station[];
+  overrides: StationOverrides;
+}
+
+export type AnalyticsStage = "matching" | "enriching" | "aggregating";
+
+// Messages posted back from the pipeline, in the order they're sent.
+// Results are posted as soon as each stage finishes so the UI can fill in
+// progressively.
+export type AnalyticsMessage =
+  | { type: "start"; total: number }
+  | {
+      type: "progress";
+      stage: AnalyticsStage;
+      completed: number;
+      total: number;
+    }
+  | {
+      type: "rides";
+      stationMatches: StationMatches;
+      enrichedRides: EnrichedRide[];
+    }
+  | { type: "stats"; stats: RideStats }
+  | { type: "stationStats"; stationStats: StationStats[] }
+  | { type: "routeStats"; routeStats: RouteStats[] }
+  | { type: "done" }
+  | { type: "error"; message: string };
+
+export function runAnalyticsPipeline(
+  { rides, stations, overrides }: AnalyticsRequest,
+  post: (message: AnalyticsMessage) => void
+) {
+  const reportProgress =
+    (stage: AnalyticsStage) => (completed: number, total: number) => {
+      if (completed % PROGRESS_INTERVAL === 0 || completed === total) {
+        post({ type: "progress", stage, completed, total });
+      }
+    };
+
+  post({ type: "start", total: rides.length });
+
+  try {
+    const index = buildStationIndex(stations);
+    const stationMatches = resolveRideStations(
+      rides,
+      index,
+      overrides,
+      reportProgress("matching")
+    );
+
+    const reportEnriching = reportProgress("enriching");
+    const enrichedRides = rides.map((ride, i) => {
+      const enriched = enrichRide(ride, stationMatches);
+      reportEnriching(i + 1, rides.length);
+      return enriched;
+    });
+    post({ type: "rides", stationMatches, enrichedRides });
+
+    // Aggregations are quick individually, so report each one as it starts
+    const reportAggregating = (completed: number) =>
+      post({ type: "progress", stage: "aggregating", completed, total: 3 });
+    reportAggregating(0);
+    post({ type: "stats", stats: computeRideStats(enrichedRides, stations) });
+    reportAggregating(1);
+    post({
+      type: "stationStats",
+      stationStats: computeStationStats(enrichedRides, stations),
+    });
+    reportAggregating(2);
+    post({ type: "routeStats", routeStats: computeRouteStats(enrichedRides) });
+
+    post({ type: "done" });
+  } catch (err) {
+    console.error("Failed to analyse rides:", err);
+    post({
+      type: "error",
+      message: err instanceof Error ? err.message : "Failed to analyse rides",
+    });
+  }
+}
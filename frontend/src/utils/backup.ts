@@ -0,0 +1,145 @@
+import {
+  BACKUP_FILE_TYPE,
+  BackupFileSchema,
+  type BackupFile,
+} from "../schemas/backup";
+import type { PersistedData } from "../schemas/persistedData";
+import type { TariffRuleSet } from "../schemas/tariffs";
+import type { Ride } from "../types/ride";
+import type { ConflictResolution, RideChanges } from "./mergeRides";
+import { createPersistedData, loadPersistedData } from "./persistedData";
+import { readFileText } from "./rideImport";
+import { validateRides } from "./rideValidation";
+import type { StationOverrides } from "./stationMatching";
+
+export interface BackupContents {
+  createdAt: number; // timestamp
+  data: PersistedData;
+  rides: Ride[]; // rides that passed validation
+  rejectedRideCount: number;
+}
+
+export interface StationOverridesDiff {
+  added: number;
+  changed: number; // mapped to a different station in the backup
+  unchanged: number;
+}
+
+// What restoring a backup should do to the saved rides
+export type BackupRestore =
+  | { mode: "replace"; rides: Ride[] }
+  | { mode: "merge"; changes: RideChanges };
+
+async function sha256Hex(text: string): Promise<string> {
+  if (!crypto?.subtle) {
+    throw new Error("This browser can't calculate backup checksums");
+  }
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function getBackupFileName(date = new Date()): string {
+  return `santander-cycle-stats-backup-${date.toISOString().slice(0, 10)}.json`;
+}
+
+// Serialise everything the app persists into a backup file
+export async function createBackupFile(
+  rides: Ride[],
+  stationOverrides: StationOverrides,
+  tariffs: TariffRuleSet[]
+): Promise<string> {
+  const data = createPersistedData(rides, stationOverrides, tariffs);
+  const backup: BackupFile = {
+    type: BACKUP_FILE_TYPE,
+    createdAt: Date.now(),
+    checksum: await sha256Hex(JSON.stringify(data)),
+    data,
+  };
+  return JSON.stringify(backup, null, 2);
+}
+
+// Read a (possibly gzip-compressed) backup file, check it hasn't been
+// altered and upgrade its data to the current format version
+export async function readBackupFile(file: File): Promise<BackupContents> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await readFileText(file));
+  } catch (err) {
+    throw new Error(
+      `Invalid JSON in ${file.name}: ${
+        err instanceof Error ? err.message : "could not parse"
+      }`
+    );
+  }
+
+  const validationResult = BackupFileSchema.safeParse(json);
+  if (!validationResult.success) {
+    throw new Error(`${file.name} is not a Santander Cycle Stats backup`);
+  }
+  const backup = validationResult.data;
+
+  if ((await sha256Hex(JSON.stringify(backup.data))) !== backup.checksum) {
+    throw new Error(
+      `${file.name} failed its checksum - the file may be corrupted or have been edited`
+    );
+  }
+
+  const data = loadPersistedData(backup.data);
+  const { validRides, rejected } = validateRides(data.rides);
+  return {
+    createdAt: backup.createdAt,
+    data,
+    rides: validRides,
+    rejectedRideCount: rejected.length,
+  };
+}
+
+export function diffStationOverrides(
+  current: StationOverrides,
+  incoming: StationOverrides
+): StationOverridesDiff {
+  const diff: StationOverridesDiff = { added: 0, changed: 0, unchanged: 0 };
+  Object.entries(incoming).forEach(([address, stationId]) => {
+    if (!(address in current)) {
+      diff.added++;
+    } else if (current[address] !== stationId) {
+      diff.changed++;
+    } else {
+      diff.unchanged++;
+    }
+  });
+  return diff;
+}
+
+export function mergeStationOverrides(
+  current: StationOverrides,
+  incoming: StationOverrides,
+  resolution: ConflictResolution
+): StationOverrides {
+  return resolution === "use-incoming"
+    ? { ...current, ...incoming }
+    : { ...incoming, ...current };
+}
+
+// Backups made before tariffs were saved leave the current ones alone
+export function tariffsDiffer(
+  current: TariffRuleSet[],
+  incoming: TariffRuleSet[] | null
+): boolean {
+  return (
+    incoming !== null && JSON.stringify(current) !== JSON.stringify(incoming)
+  );
+}
+
+export function mergeTariffs(
+  current: TariffRuleSet[],
+  incoming: TariffRuleSet[] | null,
+  resolution: ConflictResolution
+): TariffRuleSet[] {
+  return incoming && resolution === "use-incoming" ? incoming : current;
+}
@@ -0,0 +1,121 @@
+import type { ActiveElement, ChartEvent } from "chart.js";
+import type { EnrichedRide } from "../types/ride";
+
+// Brushes are selections made by clicking a chart bar or a map marker. Each
+// panel owns at most one brush, and every other panel is narrowed to the
+// rides that match it.
+
+export interface TimeOfDayBrush {
+  kind: "time-of-day";
+  fromMinute: number; // minutes after midnight, inclusive
+  toMinute: number; // exclusive
+  label: string;
+}
+
+export interface PeriodBrush {
+  kind: "period";
+  fromMs: number; // inclusive
+  toMs: number; // exclusive
+  label: string;
+}
+
+export interface DurationBrush {
+  kind: "duration";
+  fromSeconds: number; // inclusive
+  toSeconds: number; // exclusive
+  label: string;
+}
+
+export interface StationBrush {
+  kind: "station";
+  stationId: string; // rides starting or ending here
+  label: string;
+}
+
+export type Brush = TimeOfDayBrush | PeriodBrush | DurationBrush | StationBrush;
+export type BrushKind = Brush["kind"];
+
+export const BRUSH_KINDS: BrushKind[] = [
+  "time-of-day",
+  "period",
+  "duration",
+  "station",
+];
+
+export const BRUSH_KIND_LABELS: Record<BrushKind, string> = {
+  "time-of-day": "Time of day",
+  period: "Period",
+  duration: "Journey time",
+  station: "Station",
+};
+
+function matchesBrush(ride: EnrichedRide, brush: Brush): boolean {
+  switch (brush.kind) {
+    case "time-of-day": {
+      if (!ride.dateParts) return false;
+      const minute = ride.dateParts.hour * 60 + ride.dateParts.minute;
+      return minute >= brush.fromMinute && minute < brush.toMinute;
+    }
+    case "period":
+      return (
+        ride.startTimeMs !== null &&
+        ride.startTimeMs >= brush.fromMs &&
+        ride.startTimeMs < brush.toMs
+      );
+    case "duration": {
+      if (ride.durationMs === null) return false;
+      // Whole seconds, as the journey time histogram bins them
+      const seconds = Math.floor(ride.durationMs / 1000);
+      return seconds >= brush.fromSeconds && seconds < brush.toSeconds;
+    }
+    case "station":
+      return (
+        ride.startStation?.id === brush.stationId ||
+        ride.endStation?.id === brush.stationId
+      );
+  }
+}
+
+export function applyBrushes(
+  rides: EnrichedRide[],
+  brushes: Brush[]
+): EnrichedRide[] {
+  if (brushes.length === 0) return rides;
+  return rides.filter((ride) =>
+    brushes.every((brush) => matchesBrush(ride, brush))
+  );
+}
+
+// Replace the brush of the same kind, or add it to the end of the trail
+export function withBrush(brushes: Brush[], brush: Brush): Brush[] {
+  return brushes.some((b) => b.kind === brush.kind)
+    ? brushes.map((b) => (b.kind === brush.kind ? brush : b))
+    : [...brushes, brush];
+}
+
+export const withoutBrush = (brushes: Brush[], kind: BrushKind): Brush[] =>
+  brushes.filter((b) => b.kind !== kind);
+
+// Whether a bar covering [from, to) overlaps a brushed range, so the
+// selection stays highlighted after the bucket width changes
+export const overlapsBrush = (
+  from: number,
+  to: number,
+  brushFrom: number,
+  brushTo: number
+) => from < brushTo && to > brushFrom;
+
+// Chart.js options that report clicks on a bar and show a pointer over bars
+export function getBarClickOptions(onBarClick: (index: number) => void) {
+  return {
+    onClick: (_event: ChartEvent, elements: ActiveElement[]) => {
+      if (elements.length > 0) onBarClick(elements[0].index);
+    },
+    onHover: (event: ChartEvent, elements: ActiveElement[]) => {
+      const target = event.native?.target;
+      if (target instanceof HTMLElement) {
+        target.style.cursor = elements.length > 0 ? "pointer" : "default";
+      }
+    },
+  };
+}
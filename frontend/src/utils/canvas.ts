@@ -0,0 +1,80 @@
+// Shared helpers for the images drawn on canvas (share card, year in review)
+
+export const BRAND_COLORS = {
+  background: "#0f172a", // slate-900
+  accent: "#ec0000", // Santander red
+  tile: "rgba(255, 255, 255, 0.08)",
+  text: "#ffffff",
+  muted: "#cbd5e1", // slate-300
+  faint: "#94a3b8", // slate-400
+};
+
+const FONT_FAMILY =
+  'system-ui, -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif';
+
+type FontWeight = "normal" | "bold";
+
+export const setFont = (
+  ctx: CanvasRenderingContext2D,
+  size: number,
+  weight: FontWeight = "normal"
+) => {
+  ctx.font = `${weight} ${Math.round(size)}px ${FONT_FAMILY}`;
+};
+
+// Shrink text until it fits, down to `minSize`, then truncate it
+export function fitText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+  size: number,
+  minSize: number,
+  weight: FontWeight = "normal"
+): string {
+  let fontSize = size;
+  setFont(ctx, fontSize, weight);
+  while (fontSize > minSize && ctx.measureText(text).width > maxWidth) {
+    fontSize -= 2;
+    setFont(ctx, fontSize, weight);
+  }
+  if (ctx.measureText(text).width <= maxWidth) return text;
+
+  let truncated = text;
+  while (
+    truncated.length > 1 &&
+    ctx.measureText(`${truncated}…`).width > maxWidth
+  ) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated.trimEnd()}…`;
+}
+
+// Break text into lines no wider than `maxWidth` in the current font
+export function wrapText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+  text.split(/\s+/).forEach((word) => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+export const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to create image")),
+      "image/png"
+    )
+  );
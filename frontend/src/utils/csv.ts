@@ -0,0 +1,83 @@
+// Minimal CSV support: a streaming parser (RFC 4180: quoted fields, escaped
+// quotes and newlines inside quotes) that text can be pushed to in arbitrary
+// chunks, and a writer.
+
+export interface CsvParser {
+  push: (chunk: string) => void;
+  end: () => void;
+}
+
+export function createCsvParser(onRow: (row: string[]) => void): CsvParser {
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // A quote inside a quoted field might be the first half of an escaped
+  // quote, which can be split across chunks
+  let pendingQuote = false;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+
+  const endRow = () => {
+    endField();
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== "") onRow(row);
+    row = [];
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ",") {
+        endField();
+      } else if (char === "\n") {
+        endRow();
+      } else if (char !== "\r") {
+        field += char;
+      }
+    }
+  };
+
+  const end = () => {
+    if (field !== "" || row.length > 0) endRow();
+  };
+
+  return { push, end };
+}
+
+// Turn a CSV value into a trimmed string, or null if empty
+export const csvValue = (value: string | undefined): string | null => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+};
+
+// Quote a value for CSV output if it contains a delimiter, quote or newline
+function formatCsvValue(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(rows: (string | number | null)[][]): string {
+  return rows.map((row) => row.map(formatCsvValue).join(",")).join("\r\n");
+}
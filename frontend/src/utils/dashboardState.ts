@@ -0,0 +1,279 @@
+import {
+  DEFAULT_RIDE_FILTERS,
+  type BikeType,
+  type DayType,
+  type RideFilters,
+} from "./rideFilters";
+import type { Brush } from "./brushes";
+
+// The view the app is showing, kept in the URL hash so reloads, bookmarks
+// and back/forward all work. Only view settings go in here, never ride data.
+// Values at their default are left out to keep links short, e.g.
+// `#step=4&from=2023-01-01&to=2023-12-31&days=weekday&routeSort=avgDuration.desc`
+
+export type Step = 1 | 2 | 3 | 4;
+
+export const JOURNEY_BUCKET_WIDTHS = ["15s", "30s", "1m", "2m", "5m"] as const;
+export const TIME_OF_DAY_BUCKET_WIDTHS = ["15m", "30m", "1h", "2h"] as const;
+export const PERIOD_BUCKET_WIDTHS = [
+  "1d",
+  "3d",
+  "1w",
+  "1m",
+  "3m",
+  "6m",
+  "1y",
+] as const;
+
+export type JourneyBucketWidth = (typeof JOURNEY_BUCKET_WIDTHS)[number];
+export type TimeOfDayBucketWidth = (typeof TIME_OF_DAY_BUCKET_WIDTHS)[number];
+export type PeriodBucketWidth = (typeof PERIOD_BUCKET_WIDTHS)[number];
+
+export const STATION_SORT_FIELDS = [
+  "name",
+  "pickups",
+  "dropoffs",
+  "total",
+  "net",
+] as const;
+export const ROUTE_SORT_FIELDS = [
+  "startStation",
+  "endStation",
+  "count",
+  "distance",
+  "avgDuration",
+  "minDuration",
+  "maxDuration",
+] as const;
+const SORT_DIRECTIONS = ["none", "asc", "desc"] as const;
+
+export type StationSortField = (typeof STATION_SORT_FIELDS)[number];
+export type RouteSortField = (typeof ROUTE_SORT_FIELDS)[number];
+export type SortDirection = (typeof SORT_DIRECTIONS)[number];
+
+export interface TableSort<Field extends string> {
+  field: Field;
+  direction: SortDirection;
+}
+
+export interface DashboardState {
+  step: Step | null; // null until a step is picked
+  filters: RideFilters;
+  brushes: Brush[];
+  journeyBucketWidth: JourneyBucketWidth;
+  timeOfDayBucketWidth: TimeOfDayBucketWidth;
+  periodBucketWidth: PeriodBucketWidth;
+  stationSort: TableSort<StationSortField>;
+  routeSort: TableSort<RouteSortField>;
+  selectedRoutes: string[] | null; // route keys, null for every route
+}
+
+export const DEFAULT_DASHBOARD_STATE: DashboardState = {
+  step: null,
+  filters: DEFAULT_RIDE_FILTERS,
+  brushes: [],
+  journeyBucketWidth: "1m",
+  timeOfDayBucketWidth: "1h",
+  periodBucketWidth: "1m",
+  stationSort: { field: "total", direction: "desc" },
+  routeSort: { field: "count", direction: "desc" },
+  selectedRoutes: null,
+};
+
+const DAY_TYPES: DayType[] = ["all", "weekday", "weekend"];
+const BIKE_TYPES: BikeType[] = ["all", "classic", "ebike"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pick = <T extends string>(
+  options: readonly T[],
+  value: string | null,
+  fallback: T
+): T => (options.includes(value as T) ? (value as T) : fallback);
+
+const parseList = (value: string | null): string[] =>
+  value ? value.split(",").filter(Boolean) : [];
+
+function parseSort<Field extends string>(
+  fields: readonly Field[],
+  value: string | null,
+  fallback: TableSort<Field>
+): TableSort<Field> {
+  const [field, direction] = (value ?? "").split(".");
+  if (!fields.includes(field as Field)) return fallback;
+  return {
+    field: field as Field,
+    direction: pick(SORT_DIRECTIONS, direction, "desc"),
+  };
+}
+
+// `kind:from-to:label`, or `station:id:label`
+function parseBrush(value: string): Brush | null {
+  const [kind, target, ...labelParts] = value.split(":");
+  const label = labelParts.join(":");
+  if (!target || !label) return null;
+  if (kind === "station") return { kind, stationId: target, label };
+
+  const range = target.match(/^(\d+)-(\d+)$/);
+  if (!range) return null;
+  const [from, to] = [Number(range[1]), Number(range[2])];
+  switch (kind) {
+    case "time-of-day":
+      return { kind, fromMinute: from, toMinute: to, label };
+    case "period":
+      return { kind, fromMs: from, toMs: to, label };
+    case "duration":
+      return { kind, fromSeconds: from, toSeconds: to, label };
+    default:
+      return null;
+  }
+}
+
+function formatBrush(brush: Brush): string {
+  switch (brush.kind) {
+    case "time-of-day":
+      return `${brush.kind}:${brush.fromMinute}-${brush.toMinute}:${brush.label}`;
+    case "period":
+      return `${brush.kind}:${brush.fromMs}-${brush.toMs}:${brush.label}`;
+    case "duration":
+      return `${brush.kind}:${brush.fromSeconds}-${brush.toSeconds}:${brush.label}`;
+    case "station":
+      return `${brush.kind}:${brush.stationId}:${brush.label}`;
+  }
+}
+
+function parseFilters(params: URLSearchParams): RideFilters {
+  const filters = { ...DEFAULT_RIDE_FILTERS };
+
+  const from = params.get("from");
+  const to = params.get("to");
+  if (from && DATE_PATTERN.test(from)) filters.dateFrom = from;
+  if (to && DATE_PATTERN.test(to)) filters.dateTo = to;
+
+  filters.dayType = pick(DAY_TYPES, params.get("days"), "all");
+  filters.bikeType = pick(BIKE_TYPES, params.get("bike"), "all");
+
+  const hours = params.get("hours")?.match(/^(\d{1,2})-(\d{1,2})$/);
+  if (hours) {
+    const [hourFrom, hourTo] = [Number(hours[1]), Number(hours[2])];
+    if (hourFrom <= 23 && hourTo >= 1 && hourTo <= 24) {
+      filters.hourFrom = hourFrom;
+      filters.hourTo = hourTo;
+    }
+  }
+
+  const duration = params.get("duration")?.match(/^(\d*)-(\d*)$/);
+  if (duration) {
+    filters.minDurationMinutes = duration[1] ? Number(duration[1]) : null;
+    filters.maxDurationMinutes = duration[2] ? Number(duration[2]) : null;
+  }
+
+  filters.startStationIds = parseList(params.get("start"));
+  filters.endStationIds = parseList(params.get("end"));
+  return filters;
+}
+
+// Anything missing or invalid falls back to its default
+export function parseDashboardHash(hash: string): DashboardState {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const defaults = DEFAULT_DASHBOARD_STATE;
+
+  const step = Number(params.get("step"));
+  const brushes: Brush[] = [];
+  params.getAll("brush").forEach((value) => {
+    const brush = parseBrush(value);
+    // One brush per panel
+    if (brush && !brushes.some((b) => b.kind === brush.kind)) {
+      brushes.push(brush);
+    }
+  });
+
+  return {
+    step: step >= 1 && step <= 4 ? (step as Step) : null,
+    filters: parseFilters(params),
+    brushes,
+    journeyBucketWidth: pick(
+      JOURNEY_BUCKET_WIDTHS,
+      params.get("journeyBucket"),
+      defaults.journeyBucketWidth
+    ),
+    timeOfDayBucketWidth: pick(
+      TIME_OF_DAY_BUCKET_WIDTHS,
+      params.get("timeBucket"),
+      defaults.timeOfDayBucketWidth
+    ),
+    periodBucketWidth: pick(
+      PERIOD_BUCKET_WIDTHS,
+      params.get("periodBucket"),
+      defaults.periodBucketWidth
+    ),
+    stationSort: parseSort(
+      STATION_SORT_FIELDS,
+      params.get("stationSort"),
+      defaults.stationSort
+    ),
+    routeSort: parseSort(
+      ROUTE_SORT_FIELDS,
+      params.get("routeSort"),
+      defaults.routeSort
+    ),
+    selectedRoutes: params.has("routes")
+      ? parseList(params.get("routes"))
+      : null,
+  };
+}
+
+// Keep separators readable; URLSearchParams decodes either way
+const encodeValue = (value: string) =>
+  encodeURIComponent(value)
+    .replace(/%2C/g, ",")
+    .replace(/%3A/g, ":")
+    .replace(/%20/g, "+");
+
+// The hash for a state, or "" if everything is at its default
+export function formatDashboardHash(state: DashboardState): string {
+  const defaults = DEFAULT_DASHBOARD_STATE;
+  const { filters } = state;
+  const entries: [string, string][] = [];
+  const add = (key: string, value: string, defaultValue?: string) => {
+    if (value !== defaultValue) entries.push([key, value]);
+  };
+
+  if (state.step !== null) add("step", String(state.step));
+
+  if (filters.dateFrom) add("from", filters.dateFrom);
+  if (filters.dateTo) add("to", filters.dateTo);
+  add("days", filters.dayType, "all");
+  add("hours", `${filters.hourFrom}-${filters.hourTo}`, "0-24");
+  add("bike", filters.bikeType, "all");
+  add(
+    "duration",
+    `${filters.minDurationMinutes ?? ""}-${filters.maxDurationMinutes ?? ""}`,
+    "-"
+  );
+  add("start", filters.startStationIds.join(","), "");
+  add("end", filters.endStationIds.join(","), "");
+
+  state.brushes.forEach((brush) => add("brush", formatBrush(brush)));
+
+  add("journeyBucket", state.journeyBucketWidth, defaults.journeyBucketWidth);
+  add("timeBucket", state.timeOfDayBucketWidth, defaults.timeOfDayBucketWidth);
+  add("periodBucket", state.periodBucketWidth, defaults.periodBucketWidth);
+  add(
+    "stationSort",
+    `${state.stationSort.field}.${state.stationSort.direction}`,
+    `${defaults.stationSort.field}.${defaults.stationSort.direction}`
+  );
+  add(
+    "routeSort",
+    `${state.routeSort.field}.${state.routeSort.direction}`,
+    `${defaults.routeSort.field}.${defaults.routeSort.direction}`
+  );
+  if (state.selectedRoutes !== null) {
+    add("routes", state.selectedRoutes.join(","));
+  }
+
+  if (entries.length === 0) return "";
+  return `#${entries
+    .map(([key, value]) => `${key}=${encodeValue(value)}`)
+    .join("&")}`;
+}
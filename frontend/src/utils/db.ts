@@ -0,0 +1,97 @@
+// Minimal promise wrapper around the app's IndexedDB database
+
+const DB_NAME = "santander-cycle-stats";
+const DB_VERSION = 2;
+
+export const STATION_CACHE_STORE = "station-cache";
+export const RIDES_STORE = "rides";
+export const META_STORE = "meta";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STATION_CACHE_STORE)) {
+          db.createObjectStore(STATION_CACHE_STORE);
+        }
+        if (!db.objectStoreNames.contains(RIDES_STORE)) {
+          db.createObjectStore(RIDES_STORE);
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the app in another tab upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getValue<T>(
+  storeName: string,
+  key: IDBValidKey
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, "readonly").objectStore(storeName);
+  return requestToPromise(store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function putValue(
+  storeName: string,
+  key: IDBValidKey,
+  value: unknown
+): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, "readwrite").objectStore(storeName);
+  await requestToPromise(store.put(value, key));
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function getAllValues<T>(storeName: string): Promise<T[]> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, "readonly").objectStore(storeName);
+  return requestToPromise(store.getAll() as IDBRequest<T[]>);
+}
+
+export async function countValues(storeName: string): Promise<number> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, "readonly").objectStore(storeName);
+  return requestToPromise(store.count());
+}
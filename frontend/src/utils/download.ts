@@ -0,0 +1,24 @@
+// Save generated content as a file via a temporary object URL
+export function downloadFile(
+  content: BlobPart,
+  fileName: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// e.g. "santander-cycle-routes-2024-05-01.csv"
+export function getExportFileName(name: string, extension: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  return `santander-cycle-${slug}-${new Date()
+    .toISOString()
+    .slice(0, 10)}.${extension}`;
+}
@@ -0,0 +1,92 @@
+import type { EnrichedRide, Ride, RideDateParts } from "../types/ride";
+import { calculateDistance } from "./geo";
+import { getMatchedStation, type StationMatches } from "./stationMatching";
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+// Parse a formatted price ("£1.50", "£1,234.00") into pence
+export function parsePricePence(price: string | null): number | null {
+  if (!price) return null;
+  const priceMatch = price.replace(/,/g, "").match(/£?([\d.]+)/);
+  if (!priceMatch) return null;
+  const value = parseFloat(priceMatch[1]);
+  return Number.isNaN(value) ? null : Math.round(value * 100);
+}
+
+// E-bike rides carry an e-bike surcharge line in their price breakdown
+export function isEBikeRide(ride: Ride): boolean {
+  if (!ride.priceBreakdown) return false;
+  return ride.priceBreakdown.some((item) => {
+    const title = item.title?.toLowerCase();
+    return (
+      !!title &&
+      (title.includes("e-bike") ||
+        title.includes("ebike") ||
+        title.includes("electric"))
+    );
+  });
+}
+
+export function getDateParts(date: Date): RideDateParts {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const day = date.getDate();
+  return {
+    year,
+    month,
+    day,
+    weekday: date.getDay(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    dateKey: `${year}-${pad(month + 1)}-${pad(day)}`,
+    monthKey: `${year}-${pad(month + 1)}`,
+  };
+}
+
+export function enrichRide(
+  ride: Ride,
+  stationMatches: StationMatches
+): EnrichedRide {
+  const startStation = getMatchedStation(
+    stationMatches,
+    ride.startAddress,
+    ride.startTimeMs
+  );
+  const endStation = getMatchedStation(
+    stationMatches,
+    ride.endAddress,
+    ride.endTimeMs
+  );
+
+  const durationMs =
+    ride.startTimeMs !== null && ride.endTimeMs !== null
+      ? ride.endTimeMs - ride.startTimeMs
+      : null;
+
+  const distanceKm =
+    startStation && endStation
+      ? calculateDistance(
+          startStation.lat,
+          startStation.long,
+          endStation.lat,
+          endStation.long
+        )
+      : null;
+
+  const startDate =
+    ride.startTimeMs !== null ? new Date(ride.startTimeMs) : null;
+
+  return {
+    ...ride,
+    startStation,
+    endStation,
+    durationMs,
+    durationMinutes:
+      durationMs !== null ? Math.round(durationMs / 60000) : null,
+    distanceKm,
+    pricePence: parsePricePence(ride.price),
+    isEBike: isEBikeRide(ride),
+    startDate,
+    dateParts: startDate ? getDateParts(startDate) : null,
+  };
+}
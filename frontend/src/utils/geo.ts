@@ -0,0 +1,37 @@
+// Calculate distance between two lat/long points using Haversine formula (returns km)
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const R = 6371; // Radius of the Earth in km
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// Parse address string to extract lat/long if available
+export function parseCoordinates(
+  address: string | null
+): { lat: number; lon: number } | null {
+  if (!address) return null;
+
+  // Check if address contains coordinates pattern
+  const coordMatch = address.match(/(-?\d+\.\d+),\s*(-?\d+\.\d+)/);
+  if (coordMatch) {
+    return {
+      lat: parseFloat(coordMatch[1]),
+      lon: parseFloat(coordMatch[2]),
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,208 @@
+import type { Station } from "../schemas/station";
+import type { EnrichedRide } from "../types/ride";
+import { downloadFile, getExportFileName } from "./download";
+import type { RouteStats } from "./rideAggregates";
+
+// Export routes or rides as straight lines between stations, in formats GIS
+// and mapping tools can open
+
+export type GeoFormat = "geojson" | "kml" | "gpx";
+
+export type GeoProperties = Record<string, string | number | boolean | null>;
+
+export interface GeoFeature {
+  name: string;
+  start: Station;
+  end: Station;
+  // When the feature's rides happened: a ride's start and end, or a route's
+  // first and last ride
+  timeSpan: { begin: number | null; end: number | null };
+  // Whether `timeSpan` is also when each end of the line was reached, as it
+  // is for a single ride
+  timedPoints: boolean;
+  properties: GeoProperties;
+}
+
+const GEO_FORMATS: Record<GeoFormat, { extension: string; mimeType: string }> =
+  {
+    geojson: { extension: "geojson", mimeType: "application/geo+json" },
+    kml: { extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+    gpx: { extension: "gpx", mimeType: "application/gpx+xml" },
+  };
+
+const toIso = (ms: number | null) =>
+  ms === null ? null : new Date(ms).toISOString();
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export function getRouteFeatures(routes: RouteStats[]): GeoFeature[] {
+  return routes.map((route) => ({
+    name: `${route.startStation.name} → ${route.endStation.name}`,
+    start: route.startStation,
+    end: route.endStation,
+    timeSpan: { begin: route.firstRideMs, end: route.lastRideMs },
+    timedPoints: false,
+    properties: {
+      startStation: route.startStation.name,
+      endStation: route.endStation.name,
+      count: route.count,
+      avgDurationMinutes: route.avgDurationMinutes,
+      minDurationMinutes: route.minDurationMinutes,
+      maxDurationMinutes: route.maxDurationMinutes,
+      distanceKm: Number(route.distanceKm.toFixed(2)),
+      firstRide: toIso(route.firstRideMs),
+      lastRide: toIso(route.lastRideMs),
+    },
+  }));
+}
+
+// Rides without both stations matched can't be drawn and are left out
+export function getRideFeatures(rides: EnrichedRide[]): GeoFeature[] {
+  return rides.flatMap((ride) => {
+    const { startStation, endStation } = ride;
+    if (!startStation || !endStation) return [];
+    return [
+      {
+        name: `${startStation.name} → ${endStation.name}`,
+        start: startStation,
+        end: endStation,
+        timeSpan: { begin: ride.startTimeMs, end: ride.endTimeMs },
+        timedPoints: true,
+        properties: {
+          rideId: ride.rideId,
+          startStation: startStation.name,
+          endStation: endStation.name,
+          startTime: toIso(ride.startTimeMs),
+          endTime: toIso(ride.endTimeMs),
+          durationMinutes: ride.durationMinutes,
+          distanceKm:
+            ride.distanceKm === null
+              ? null
+              : Number(ride.distanceKm.toFixed(2)),
+          price: ride.price,
+          eBike: ride.isEBike,
+        },
+      },
+    ];
+  });
+}
+
+export function toGeoJson(features: GeoFeature[]): string {
+  return JSON.stringify(
+    {
+      type: "FeatureCollection",
+      features: features.map((feature) => ({
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: [
+            [feature.start.long, feature.start.lat],
+            [feature.end.long, feature.end.lat],
+          ],
+        },
+        properties: { name: feature.name, ...feature.properties },
+      })),
+    },
+    null,
+    2
+  );
+}
+
+export function toKml(features: GeoFeature[], name: string): string {
+  const placemarks = features.map((feature) => {
+    const begin = toIso(feature.timeSpan.begin);
+    const end = toIso(feature.timeSpan.end);
+    const timeSpan =
+      begin || end
+        ? `<TimeSpan>${begin ? `<begin>${begin}</begin>` : ""}${
+            end ? `<end>${end}</end>` : ""
+          }</TimeSpan>`
+        : "";
+    const data = Object.entries(feature.properties)
+      .filter(([, value]) => value !== null)
+      .map(
+        ([key, value]) =>
+          `<Data name="${escapeXml(key)}"><value>${escapeXml(
+            String(value)
+          )}</value></Data>`
+      )
+      .join("");
+
+    return `    <Placemark>
+      <name>${escapeXml(feature.name)}</name>
+      ${timeSpan}<ExtendedData>${data}</ExtendedData>
+      <styleUrl>#route</styleUrl>
+      <LineString><tessellate>1</tessellate><coordinates>${
+        feature.start.long
+      },${feature.start.lat},0 ${feature.end.long},${
+      feature.end.lat
+    },0</coordinates></LineString>
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>
+    <Style id="route"><LineStyle><color>fff6823b</color><width>3</width></LineStyle></Style>
+${placemarks.join("\n")}
+  </Document>
+</kml>
+`;
+}
+
+// Each feature becomes a two-point track. GPX has no general-purpose
+// property fields, so properties are listed in the description.
+export function toGpx(features: GeoFeature[], name: string): string {
+  const point = (station: Station, timeMs: number | null) => {
+    const time = toIso(timeMs);
+    return `<trkpt lat="${station.lat}" lon="${station.long}">${
+      time ? `<time>${time}</time>` : ""
+    }</trkpt>`;
+  };
+
+  const tracks = features.map((feature) => {
+    const description = Object.entries(feature.properties)
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join("; ");
+    return `  <trk>
+    <name>${escapeXml(feature.name)}</name>
+    <desc>${escapeXml(description)}</desc>
+    <trkseg>${point(
+      feature.start,
+      feature.timedPoints ? feature.timeSpan.begin : null
+    )}${point(
+      feature.end,
+      feature.timedPoints ? feature.timeSpan.end : null
+    )}</trkseg>
+  </trk>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Santander Cycle Stats" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>${escapeXml(name)}</name></metadata>
+${tracks.join("\n")}
+</gpx>
+`;
+}
+
+export function exportGeoFeatures(
+  features: GeoFeature[],
+  name: string,
+  format: GeoFormat
+): void {
+  const content =
+    format === "geojson"
+      ? toGeoJson(features)
+      : format === "kml"
+      ? toKml(features, name)
+      : toGpx(features, name);
+  const { extension, mimeType } = GEO_FORMATS[format];
+  downloadFile(content, getExportFileName(name, extension), mimeType);
+}
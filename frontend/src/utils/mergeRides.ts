@@ -0,0 +1,146 @@
+import type { Ride } from "../types/ride";
+import { getRideKey } from "./rideKey";
+
+export type RideField = keyof Ride;
+
+const RIDE_FIELDS: RideField[] = [
+  "rideId",
+  "startTimeMs",
+  "endTimeMs",
+  "startAddress",
+  "endAddress",
+  "price",
+  "priceBreakdown",
+  "paymentMethod",
+];
+
+export interface RideChange {
+  existing: Ride;
+  incoming: Ride;
+  merged: Ride;
+  fields: RideField[]; // fields that differ
+}
+
+export interface RideDiff {
+  added: Ride[];
+  updated: RideChange[]; // incoming fills in fields the saved ride was missing
+  unchanged: Ride[];
+  conflicts: RideChange[]; // both sides have different values for a field
+}
+
+export type ConflictResolution = "keep-existing" | "use-incoming";
+
+export interface RideChanges {
+  rides: Ride[]; // rides to insert or update
+  removedKeys: string[]; // stored keys superseded by a merged ride
+}
+
+const fieldsEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Identity from start time and addresses, for rides without a rideId
+function getFallbackKey(ride: Ride): string | null {
+  if (ride.startTimeMs === null) return null;
+  return getRideKey({ ...ride, rideId: null });
+}
+
+// Compare pasted rides against the saved set. Rides are matched by rideId,
+// falling back to start time plus addresses when either side has no rideId.
+export function diffRides(existing: Ride[], incoming: Ride[]): RideDiff {
+  const byId = new Map<string, Ride>();
+  const byFallback = new Map<string, Ride>();
+  existing.forEach((ride) => {
+    if (ride.rideId) byId.set(ride.rideId, ride);
+    const fallbackKey = getFallbackKey(ride);
+    if (fallbackKey) byFallback.set(fallbackKey, ride);
+  });
+
+  const findExisting = (ride: Ride): Ride | null => {
+    if (ride.rideId) {
+      const match = byId.get(ride.rideId);
+      if (match) return match;
+    }
+    const fallbackKey = getFallbackKey(ride);
+    const match = fallbackKey ? byFallback.get(fallbackKey) : undefined;
+    // Two different rideIds are always different rides
+    if (match && (!match.rideId || !ride.rideId)) return match;
+    return null;
+  };
+
+  // Deduplicate the pasted rides, keeping the last copy of each
+  const pairs = new Map<string, { incoming: Ride; existing: Ride | null }>();
+  incoming.forEach((ride) => {
+    const match = findExisting(ride);
+    pairs.set(getRideKey(match ?? ride), { incoming: ride, existing: match });
+  });
+
+  const diff: RideDiff = {
+    added: [],
+    updated: [],
+    unchanged: [],
+    conflicts: [],
+  };
+
+  pairs.forEach(({ incoming: ride, existing: match }) => {
+    if (!match) {
+      diff.added.push(ride);
+      return;
+    }
+
+    const merged = { ...match };
+    const fields: RideField[] = [];
+    let conflicting = false;
+
+    RIDE_FIELDS.forEach((field) => {
+      const incomingValue = ride[field];
+      // A missing value never overwrites saved data
+      if (incomingValue === null || fieldsEqual(incomingValue, match[field])) {
+        return;
+      }
+      if (match[field] !== null) conflicting = true;
+      fields.push(field);
+      Object.assign(merged, { [field]: incomingValue });
+    });
+
+    if (fields.length === 0) {
+      diff.unchanged.push(match);
+    } else if (conflicting) {
+      diff.conflicts.push({ existing: match, incoming: ride, merged, fields });
+    } else {
+      diff.updated.push({ existing: match, incoming: ride, merged, fields });
+    }
+  });
+
+  return diff;
+}
+
+export function getRideChanges(
+  diff: RideDiff,
+  resolution: ConflictResolution
+): RideChanges {
+  const changes = [
+    ...diff.updated,
+    ...(resolution === "use-incoming" ? diff.conflicts : []),
+  ];
+
+  return {
+    rides: [...diff.added, ...changes.map((change) => change.merged)],
+    // A ride that gains a rideId is stored under a new key
+    removedKeys: changes
+      .filter(
+        (change) => getRideKey(change.existing) !== getRideKey(change.merged)
+      )
+      .map((change) => getRideKey(change.existing)),
+  };
+}
+
+// Apply changes to an in-memory ride list
+export function applyRideChanges(
+  rides: Ride[],
+  { rides: changedRides, removedKeys }: RideChanges
+): Ride[] {
+  const byKey = new Map(rides.map((ride) => [getRideKey(ride), ride]));
+  removedKeys.forEach((key) => byKey.delete(key));
+  changedRides.forEach((ride) => byKey.set(getRideKey(ride), ride));
+  return Array.from(byKey.values());
+}
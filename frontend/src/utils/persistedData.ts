@@ -0,0 +1,115 @@
+import type { z } from "zod";
+import {
+  PersistedDataSchema,
+  PersistedDataV0Schema,
+  PersistedDataV1Schema,
+  PersistedDataV2Schema,
+  PersistedDataV3Schema,
+  type PersistedData,
+  type PersistedDataV1,
+  type PersistedDataV2,
+  type PersistedDataV3,
+} from "../schemas/persistedData";
+import type { TariffRuleSet } from "../schemas/tariffs";
+import type { Ride } from "../types/ride";
+import type { StationOverrides } from "./stationMatching";
+
+// Loader for saved ride data in any version of the persisted format.
+// Older payloads are upgraded one version at a time, so adding a version
+// only needs a schema and a migration from the previous one.
+
+export const CURRENT_DATA_VERSION = 4;
+
+function parseVersion<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  version: number
+): T {
+  const validationResult = schema.safeParse(data);
+  if (!validationResult.success) {
+    const firstError = validationResult.error.issues[0];
+    throw new Error(
+      `Invalid saved data (format version ${version}): ${
+        firstError?.message || "Invalid data structure"
+      }`
+    );
+  }
+  return validationResult.data;
+}
+
+// Upgrades to the next version, keyed by the version they upgrade from
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: (data): PersistedDataV1 => {
+    const rides = parseVersion(PersistedDataV0Schema, data, 0);
+    return { rides, rideCount: rides.length };
+  },
+  1: (data): PersistedDataV2 => {
+    const { rides, savedAt } = parseVersion(PersistedDataV1Schema, data, 1);
+    // Early saves didn't record when they were made
+    return { version: 2, savedAt: savedAt ?? Date.now(), rides };
+  },
+  2: (data): PersistedDataV3 => ({
+    ...parseVersion(PersistedDataV2Schema, data, 2),
+    version: 3,
+    stationOverrides: {},
+  }),
+  3: (data): PersistedData => ({
+    ...parseVersion(PersistedDataV3Schema, data, 3),
+    version: 4,
+    tariffs: null,
+  }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Versions before 2 are recognised by their shape
+export function getDataVersion(data: unknown): number | null {
+  if (Array.isArray(data)) return 0;
+  if (!isRecord(data)) return null;
+  if (typeof data.version === "number") return data.version;
+  if (Array.isArray(data.rides)) return 1;
+  return null;
+}
+
+export function isPersistedData(data: unknown): boolean {
+  return getDataVersion(data) !== null;
+}
+
+// Validate saved data against its version's schema and migrate it to the
+// current version
+export function loadPersistedData(data: unknown): PersistedData {
+  const version = getDataVersion(data);
+  if (version === null) {
+    throw new Error("Unrecognised saved data format");
+  }
+  if (version > CURRENT_DATA_VERSION) {
+    throw new Error(
+      `This data was saved by a newer version of the app (format version ${version}). Please refresh the page to update.`
+    );
+  }
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Unknown saved data format version: ${version}`);
+  }
+
+  let current = data;
+  for (let v = version; v < CURRENT_DATA_VERSION; v++) {
+    current = MIGRATIONS[v](current);
+  }
+  return parseVersion(PersistedDataSchema, current, CURRENT_DATA_VERSION);
+}
+
+export function createPersistedData(
+  rides: Ride[],
+  stationOverrides: StationOverrides,
+  tariffs: TariffRuleSet[],
+  savedAt = Date.now()
+): PersistedData {
+  return {
+    version: CURRENT_DATA_VERSION,
+    savedAt,
+    rides,
+    stationOverrides,
+    tariffs,
+  };
+}
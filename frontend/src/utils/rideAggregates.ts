@@ -0,0 +1,426 @@
+import type { EnrichedRide } from "../types/ride";
+import type { Station } from "../schemas/station";
+import { isCurrentStation } from "./stationRegistry";
+
+// Aggregations over an enriched ride history. These run inside the
+// analytics worker, so they must stay free of DOM and React dependencies.
+
+export interface RideStats {
+  totalRides: number;
+  avgDurationMinutes: number | null;
+  minDurationMinutes: number | null;
+  maxDurationMinutes: number | null;
+  earliestRide: Date | null;
+  daysAgo: number | null;
+  totalSpentAmount: number;
+  totalSpentRides: number;
+  stationsVisited: number;
+  totalStations: number;
+  eBikeTrips: number;
+  favouriteStation: Station | null;
+  maxVisits: number;
+  longestRideDistanceKm: number | null;
+  longestRideDate: Date | null;
+  mostRidesInDay: number;
+  mostRidesInDayDate: Date | null;
+  totalDistanceKm: number;
+  fastestJourney: {
+    durationMinutes: number;
+    distanceKm: number;
+    speedKph: number;
+  } | null;
+  longestStreak: number;
+  busiestMonth: {
+    count: number;
+    month: number;
+    year: number;
+  } | null;
+  totalTimeCyclingMinutes: number;
+  longestBreakDays: number | null;
+}
+
+export interface StationStats {
+  station: Station;
+  pickups: number;
+  dropoffs: number;
+  total: number;
+  net: number; // pickups - dropoffs
+}
+
+export interface RouteStats {
+  startStation: Station;
+  endStation: Station;
+  count: number;
+  avgDurationMinutes: number | null;
+  minDurationMinutes: number | null;
+  maxDurationMinutes: number | null;
+  distanceKm: number;
+  firstRideMs: number | null; // start time of the earliest ride
+  lastRideMs: number | null; // start time of the latest ride
+}
+
+export function computeRideStats(
+  rides: EnrichedRide[],
+  stations: Station[]
+): RideStats {
+  const totalRides = rides.length;
+
+  // Calculate duration stats
+  const durationsMs = rides
+    .map((r) => r.durationMs)
+    .filter((d): d is number => d !== null);
+
+  const avgDurationMinutes =
+    durationsMs.length > 0
+      ? Math.round(
+          durationsMs.reduce((sum, d) => sum + d, 0) /
+            durationsMs.length /
+            60000
+        )
+      : null;
+
+  const minDurationMinutes =
+    durationsMs.length > 0
+      ? Math.round(durationsMs.reduce((a, b) => Math.min(a, b)) / 60000)
+      : null;
+
+  const maxDurationMinutes =
+    durationsMs.length > 0
+      ? Math.round(durationsMs.reduce((a, b) => Math.max(a, b)) / 60000)
+      : null;
+
+  // Calculate first ride date and days ago
+  const startTimes = rides
+    .map((r) => r.startTimeMs)
+    .filter((t): t is number => t !== null);
+  const earliestRide =
+    startTimes.length > 0
+      ? new Date(startTimes.reduce((a, b) => Math.min(a, b)))
+      : null;
+
+  const daysAgo = earliestRide
+    ? Math.floor(
+        (new Date().getTime() - earliestRide.getTime()) / (1000 * 60 * 60 * 24)
+      )
+    : null;
+
+  // Calculate price stats
+  // Filter out rides with no actual cost (£0.00 or null)
+  const ridesWithPrice = rides.filter(
+    (r) => r.pricePence !== null && r.pricePence > 0
+  );
+  const totalSpentAmount =
+    ridesWithPrice.reduce((sum, r) => sum + (r.pricePence ?? 0), 0) / 100;
+  const totalSpentRides = ridesWithPrice.length;
+
+  // Calculate stations visited and favourite station (most visited)
+  const stationVisitCounts = new Map<string, number>();
+  const visitedStations = new Map<string, Station>();
+  rides.forEach((ride) => {
+    [ride.startStation, ride.endStation].forEach((station) => {
+      if (station) {
+        visitedStations.set(station.id, station);
+        stationVisitCounts.set(
+          station.id,
+          (stationVisitCounts.get(station.id) || 0) + 1
+        );
+      }
+    });
+  });
+  const stationsVisited = stationVisitCounts.size;
+  const totalStations = stations.filter(isCurrentStation).length;
+
+  let favouriteStation: Station | null = null;
+  let maxVisits = 0;
+  stationVisitCounts.forEach((visits, stationId) => {
+    if (visits > maxVisits) {
+      maxVisits = visits;
+      favouriteStation = visitedStations.get(stationId) ?? null;
+    }
+  });
+
+  // Calculate e-bike trips
+  const eBikeTrips = rides.filter((r) => r.isEBike).length;
+
+  // Calculate ride distances, longest ride and fastest journey
+  // (highest speed, excluding rides < 1km)
+  let longestRideDistanceKm: number | null = null;
+  let longestRideDate: Date | null = null;
+  let totalDistanceKm = 0;
+  let fastestJourney: {
+    durationMinutes: number;
+    distanceKm: number;
+    speedKph: number;
+  } | null = null;
+
+  rides.forEach((ride) => {
+    if (ride.distanceKm === null) return;
+    totalDistanceKm += ride.distanceKm;
+
+    if (
+      longestRideDistanceKm === null ||
+      ride.distanceKm > longestRideDistanceKm
+    ) {
+      longestRideDistanceKm = ride.distanceKm;
+      longestRideDate = ride.startDate;
+    }
+
+    if (
+      ride.durationMinutes !== null &&
+      ride.durationMinutes > 0 &&
+      ride.distanceKm >= 1 // At least 1km
+    ) {
+      const speedKph = (ride.distanceKm / ride.durationMinutes) * 60;
+      if (fastestJourney === null || speedKph > fastestJourney.speedKph) {
+        fastestJourney = {
+          durationMinutes: ride.durationMinutes,
+          distanceKm: ride.distanceKm,
+          speedKph,
+        };
+      }
+    }
+  });
+
+  // Calculate most rides in a single day
+  const ridesByDate = new Map<string, number>();
+  rides.forEach((ride) => {
+    if (ride.dateParts) {
+      const dateKey = ride.dateParts.dateKey; // YYYY-MM-DD (local)
+      ridesByDate.set(dateKey, (ridesByDate.get(dateKey) || 0) + 1);
+    }
+  });
+
+  const parseDateKey = (dateKey: string) => {
+    const [year, month, day] = dateKey.split("-").map(Number);
+    return new Date(year, month - 1, day);
+  };
+
+  let mostRidesInDay = 0;
+  let mostRidesInDayDate: Date | null = null;
+  ridesByDate.forEach((count, dateKey) => {
+    if (count > mostRidesInDay) {
+      mostRidesInDay = count;
+      mostRidesInDayDate = parseDateKey(dateKey);
+    }
+  });
+
+  // Calculate longest streak of consecutive days with at least one ride
+  const rideDates = Array.from(ridesByDate.keys())
+    .map(parseDateKey)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  let longestStreak = 0;
+  let longestBreakDays: number | null = null;
+  if (rideDates.length > 1) {
+    let currentStreak = 1;
+    longestStreak = 1;
+
+    for (let i = 1; i < rideDates.length; i++) {
+      const prevDate = rideDates[i - 1];
+      const currDate = rideDates[i];
+      // Round to absorb daylight saving shifts between local midnights
+      const daysDiff = Math.round(
+        (currDate.getTime() - prevDate.getTime()) / (1000 * 60 * 60 * 24)
+      );
+
+      if (daysDiff === 1) {
+        // Consecutive day
+        currentStreak++;
+        longestStreak = Math.max(longestStreak, currentStreak);
+      } else {
+        // Gap in days, reset streak
+        currentStreak = 1;
+      }
+
+      // Track longest break (days between rides, excluding the day of the rides themselves)
+      // If rides are on day 1 and day 5, that's a 3-day break
+      const breakDays = daysDiff - 1;
+      if (
+        breakDays > 0 &&
+        (longestBreakDays === null || breakDays > longestBreakDays)
+      ) {
+        longestBreakDays = breakDays;
+      }
+    }
+  }
+
+  // Calculate busiest month
+  const ridesByMonth = new Map<string, number>();
+  rides.forEach((ride) => {
+    if (ride.dateParts) {
+      const monthKey = ride.dateParts.monthKey; // YYYY-MM
+      ridesByMonth.set(monthKey, (ridesByMonth.get(monthKey) || 0) + 1);
+    }
+  });
+
+  let busiestMonth: {
+    count: number;
+    month: number;
+    year: number;
+  } | null = null;
+  ridesByMonth.forEach((count, monthKey) => {
+    if (busiestMonth === null || count > busiestMonth.count) {
+      const [year, month] = monthKey.split("-").map(Number);
+      busiestMonth = {
+        count,
+        month: month - 1, // 0-indexed
+        year,
+      };
+    }
+  });
+
+  // Calculate total time cycling
+  const totalTimeCyclingMinutes = rides.reduce(
+    (sum, ride) => sum + (ride.durationMinutes ?? 0),
+    0
+  );
+
+  return {
+    totalRides,
+    avgDurationMinutes,
+    minDurationMinutes,
+    maxDurationMinutes,
+    earliestRide,
+    daysAgo,
+    totalSpentAmount,
+    totalSpentRides,
+    stationsVisited,
+    totalStations,
+    eBikeTrips,
+    favouriteStation,
+    maxVisits,
+    longestRideDistanceKm,
+    longestRideDate,
+    mostRidesInDay,
+    mostRidesInDayDate,
+    totalDistanceKm,
+    fastestJourney,
+    longestStreak,
+    busiestMonth,
+    totalTimeCyclingMinutes,
+    longestBreakDays,
+  };
+}
+
+export function computeStationStats(
+  rides: EnrichedRide[],
+  stations: Station[]
+): StationStats[] {
+  const statsMap = new Map<string, StationStats>();
+
+  // Initialize all stations with zero stats
+  stations.forEach((station) => {
+    statsMap.set(station.id, {
+      station,
+      pickups: 0,
+      dropoffs: 0,
+      total: 0,
+      net: 0,
+    });
+  });
+
+  // Count pickups and dropoffs
+  rides.forEach((ride) => {
+    const startStation = ride.startStation;
+    if (startStation) {
+      const stats = statsMap.get(startStation.id);
+      if (stats) {
+        stats.pickups++;
+        stats.total++;
+        stats.net++;
+      }
+    }
+
+    const endStation = ride.endStation;
+    if (endStation) {
+      const stats = statsMap.get(endStation.id);
+      if (stats) {
+        stats.dropoffs++;
+        stats.total++;
+        stats.net--;
+      }
+    }
+  });
+
+  return Array.from(statsMap.values());
+}
+
+export function computeRouteStats(rides: EnrichedRide[]): RouteStats[] {
+  const routesMap = new Map<string, RouteStats>();
+
+  rides.forEach((ride) => {
+    const {
+      startStation,
+      endStation,
+      distanceKm,
+      durationMinutes,
+      startTimeMs,
+    } = ride;
+
+    // Only count routes where both stations are identified
+    if (startStation && endStation && distanceKm !== null) {
+      const routeKey = `${startStation.id}-${endStation.id}`;
+      const existing = routesMap.get(routeKey);
+
+      if (existing) {
+        existing.count++;
+        // Update average, min, and max duration
+        if (durationMinutes !== null) {
+          if (existing.avgDurationMinutes === null) {
+            existing.avgDurationMinutes = durationMinutes;
+          } else {
+            // Recalculate average
+            const totalDuration =
+              existing.avgDurationMinutes * (existing.count - 1) +
+              durationMinutes;
+            existing.avgDurationMinutes = Math.round(
+              totalDuration / existing.count
+            );
+          }
+          // Update min duration
+          if (
+            existing.minDurationMinutes === null ||
+            durationMinutes < existing.minDurationMinutes
+          ) {
+            existing.minDurationMinutes = durationMinutes;
+          }
+          // Update max duration
+          if (
+            existing.maxDurationMinutes === null ||
+            durationMinutes > existing.maxDurationMinutes
+          ) {
+            existing.maxDurationMinutes = durationMinutes;
+          }
+        }
+        if (startTimeMs !== null) {
+          if (
+            existing.firstRideMs === null ||
+            startTimeMs < existing.firstRideMs
+          ) {
+            existing.firstRideMs = startTimeMs;
+          }
+          if (
+            existing.lastRideMs === null ||
+            startTimeMs > existing.lastRideMs
+          ) {
+            existing.lastRideMs = startTimeMs;
+          }
+        }
+      } else {
+        routesMap.set(routeKey, {
+          startStation,
+          endStation,
+          count: 1,
+          avgDurationMinutes: durationMinutes,
+          minDurationMinutes: durationMinutes,
+          maxDurationMinutes: durationMinutes,
+          distanceKm,
+          firstRideMs: startTimeMs,
+          lastRideMs: startTimeMs,
+        });
+      }
+    }
+  });
+
+  return Array.from(routesMap.values());
+}
@@ -0,0 +1,131 @@
+import type { EnrichedRide } from "../types/ride";
+
+// Filters applied to the enriched rides before any chart, table or map sees
+// them. Plain serialisable values only, so they can be saved and shared.
+
+export type DayType = "all" | "weekday" | "weekend";
+export type BikeType = "all" | "classic" | "ebike";
+
+export interface RideFilters {
+  dateFrom: string | null; // YYYY-MM-DD, inclusive
+  dateTo: string | null; // YYYY-MM-DD, inclusive
+  dayType: DayType;
+  hourFrom: number; // 0-23, start of the time-of-day window
+  hourTo: number; // 1-24, end of the window (exclusive); wraps past midnight if before hourFrom
+  bikeType: BikeType;
+  minDurationMinutes: number | null;
+  maxDurationMinutes: number | null;
+  startStationIds: string[]; // empty for any station
+  endStationIds: string[]; // empty for any station
+}
+
+export const DEFAULT_RIDE_FILTERS: RideFilters = {
+  dateFrom: null,
+  dateTo: null,
+  dayType: "all",
+  hourFrom: 0,
+  hourTo: 24,
+  bikeType: "all",
+  minDurationMinutes: null,
+  maxDurationMinutes: null,
+  startStationIds: [],
+  endStationIds: [],
+};
+
+// Number of filters that differ from the defaults
+export function countActiveFilters(filters: RideFilters): number {
+  return [
+    filters.dateFrom !== null || filters.dateTo !== null,
+    filters.dayType !== "all",
+    filters.hourFrom !== 0 || filters.hourTo !== 24,
+    filters.bikeType !== "all",
+    filters.minDurationMinutes !== null || filters.maxDurationMinutes !== null,
+    filters.startStationIds.length > 0,
+    filters.endStationIds.length > 0,
+  ].filter(Boolean).length;
+}
+
+function isInHourWindow(hour: number, from: number, to: number): boolean {
+  if (from === to || (from === 0 && to === 24)) return true;
+  return from < to ? hour >= from && hour < to : hour >= from || hour < to;
+}
+
+// Rides missing the field a filter needs (no date, no duration, unmatched
+// station) are excluded by that filter
+export function filterRides(
+  rides: EnrichedRide[],
+  filters: RideFilters
+): EnrichedRide[] {
+  if (countActiveFilters(filters) === 0) return rides;
+
+  const startStationIds = new Set(filters.startStationIds);
+  const endStationIds = new Set(filters.endStationIds);
+  const filterByHour = filters.hourFrom !== 0 || filters.hourTo !== 24;
+
+  return rides.filter((ride) => {
+    const { dateParts } = ride;
+
+    if (filters.dateFrom !== null || filters.dateTo !== null) {
+      if (!dateParts) return false;
+      if (filters.dateFrom !== null && dateParts.dateKey < filters.dateFrom) {
+        return false;
+      }
+      if (filters.dateTo !== null && dateParts.dateKey > filters.dateTo) {
+        return false;
+      }
+    }
+
+    if (filters.dayType !== "all") {
+      if (!dateParts) return false;
+      const isWeekend = dateParts.weekday === 0 || dateParts.weekday === 6;
+      if (isWeekend !== (filters.dayType === "weekend")) return false;
+    }
+
+    if (filterByHour) {
+      if (
+        !dateParts ||
+        !isInHourWindow(dateParts.hour, filters.hourFrom, filters.hourTo)
+      ) {
+        return false;
+      }
+    }
+
+    if (filters.bikeType !== "all") {
+      if (ride.isEBike !== (filters.bikeType === "ebike")) return false;
+    }
+
+    if (
+      filters.minDurationMinutes !== null ||
+      filters.maxDurationMinutes !== null
+    ) {
+      if (ride.durationMinutes === null) return false;
+      if (
+        filters.minDurationMinutes !== null &&
+        ride.durationMinutes < filters.minDurationMinutes
+      ) {
+        return false;
+      }
+      if (
+        filters.maxDurationMinutes !== null &&
+        ride.durationMinutes > filters.maxDurationMinutes
+      ) {
+        return false;
+      }
+    }
+
+    if (
+      startStationIds.size > 0 &&
+      (!ride.startStation || !startStationIds.has(ride.startStation.id))
+    ) {
+      return false;
+    }
+    if (
+      endStationIds.size > 0 &&
+      (!ride.endStation || !endStationIds.has(ride.endStation.id))
+    ) {
+      return false;
+    }
+
+    return true;
+  });
+}
@@ -0,0 +1,133 @@
+import { BACKUP_FILE_TYPE } from "../schemas/backup";
+import { isPersistedData, loadPersistedData } from "./persistedData";
+
+// Detect and unwrap the ride data formats the app can import
+
+export type RideDataFormat =
+  | "ride-array"
+  | "ride-details-map"
+  | "stored-envelope"
+  | "tfl-csv";
+
+export interface DetectedRideData {
+  format: RideDataFormat;
+  rides: unknown[]; // still to be validated, see validateRides
+}
+
+export const RIDE_FORMAT_LABELS: Record<RideDataFormat, string> = {
+  "ride-array": "ride array (Script B output)",
+  "ride-details-map": "window.__rideDetails map",
+  "stored-envelope": "saved rides export",
+  "tfl-csv": "TfL usage data CSV",
+};
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Work out which format parsed JSON is in and pull out the ride list:
+// - the Script B array: `[ride, ...]`
+// - a saved rides export, in any version of the persisted format
+// - the raw `window.__rideDetails` map: `{ [rideId]: ride | null }`
+export function detectRideFormat(data: unknown): DetectedRideData {
+  if (isRecord(data) && data.type === BACKUP_FILE_TYPE) {
+    throw new Error(
+      'This is a full backup - use "Restore backup" above to load it.'
+    );
+  }
+
+  if (isPersistedData(data)) {
+    // A bare ride array is also the oldest persisted format
+    return {
+      format: Array.isArray(data) ? "ride-array" : "stored-envelope",
+      rides: loadPersistedData(data).rides,
+    };
+  }
+
+  if (isRecord(data)) {
+    const values = Object.values(data);
+    // Rides that couldn't be fetched are stored as null
+    if (
+      values.length > 0 &&
+      values.every((value) => value === null || isRecord(value))
+    ) {
+      return {
+        format: "ride-details-map",
+        rides: values.filter((value) => value !== null),
+      };
+    }
+  }
+
+  throw new Error(
+    "Unrecognised data format. Expected a ride array, a window.__rideDetails object or a saved rides export."
+  );
+}
+
+async function gunzip(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("This browser can't decompress gzip files");
+  }
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return new Response(stream).text();
+}
+
+async function isGzipFile(file: Blob): Promise<boolean> {
+  const bytes = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  return (
+    bytes.length >= 2 &&
+    bytes[0] === GZIP_MAGIC[0] &&
+    bytes[1] === GZIP_MAGIC[1]
+  );
+}
+
+// Stream a (possibly gzip-compressed) file as text without loading it whole.
+// `onBytesRead` reports progress against `file.size`.
+export async function streamFileText(
+  file: File,
+  onBytesRead?: (bytesRead: number) => void
+): Promise<ReadableStream<string>> {
+  let bytesRead = 0;
+  let stream = file.stream().pipeThrough(
+    new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+      transform(chunk, controller) {
+        bytesRead += chunk.byteLength;
+        onBytesRead?.(bytesRead);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+
+  if (await isGzipFile(file)) {
+    if (typeof DecompressionStream === "undefined") {
+      throw new Error("This browser can't decompress gzip files");
+    }
+    stream = stream.pipeThrough(new DecompressionStream("gzip"));
+  }
+  return stream.pipeThrough(new TextDecoderStream());
+}
+
+// Read a (possibly gzip-compressed) file as text
+export async function readFileText(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return (await isGzipFile(file))
+    ? gunzip(bytes)
+    : new TextDecoder().decode(bytes);
+}
+
+export async function readRideFile(file: File): Promise<DetectedRideData> {
+  const text = await readFileText(file);
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(
+      `Invalid JSON in ${file.name}: ${
+        err instanceof Error ? err.message : "could not parse"
+      }`
+    );
+  }
+  return detectRideFormat(data);
+}
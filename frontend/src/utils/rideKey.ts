@@ -0,0 +1,10 @@
+import type { Ride } from "../types/ride";
+
+// Stable identity for a ride. Most rides have a rideId; for the few that
+// don't, fall back to the start time and addresses.
+export function getRideKey(ride: Ride): string {
+  if (ride.rideId) return ride.rideId;
+  return `~${ride.startTimeMs ?? ""}|${ride.startAddress ?? ""}|${
+    ride.endAddress ?? ""
+  }`;
+}
@@ -0,0 +1,109 @@
+import type { EnrichedRide, PaymentMethod } from "../types/ride";
+
+// Searching, sorting and route history for the ride log
+
+export type RideLogSortField = "date" | "duration" | "price" | "distance";
+export type RideLogSortDirection = "asc" | "desc";
+
+export interface RouteHistory {
+  rides: EnrichedRide[]; // every ride on the route, oldest first
+  position: number; // 0-based index of the ride in `rides`
+}
+
+const SORT_VALUES: Record<
+  RideLogSortField,
+  (ride: EnrichedRide) => number | null
+> = {
+  date: (ride) => ride.startTimeMs,
+  duration: (ride) => ride.durationMs,
+  price: (ride) => ride.pricePence,
+  distance: (ride) => ride.distanceKm,
+};
+
+export const formatRideDate = (ms: number | null) =>
+  ms === null
+    ? "Unknown date"
+    : new Date(ms).toLocaleString("en-GB", {
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+
+export const formatRideDuration = (ms: number | null) => {
+  if (ms === null) return "—";
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+// The card a ride was charged to, e.g. "Visa ending 1234"
+export function formatPaymentMethod(
+  method: PaymentMethod | null
+): string | null {
+  if (!method) return null;
+  const name = method.cardType ?? method.clientPaymentMethod;
+  if (!name) return null;
+  return method.lastFour ? `${name} ending ${method.lastFour}` : name;
+}
+
+// Rides whose addresses or matched station names contain every word
+export function searchRides(
+  rides: EnrichedRide[],
+  query: string
+): EnrichedRide[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return rides;
+
+  return rides.filter((ride) => {
+    const text = [
+      ride.startAddress,
+      ride.endAddress,
+      ride.startStation?.name,
+      ride.endStation?.name,
+    ]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+// Rides missing the sort value always go last
+export function sortRides(
+  rides: EnrichedRide[],
+  field: RideLogSortField,
+  direction: RideLogSortDirection
+): EnrichedRide[] {
+  const getValue = SORT_VALUES[field];
+  return [...rides].sort((a, b) => {
+    const aValue = getValue(a);
+    const bValue = getValue(b);
+    if (aValue === null || bValue === null) {
+      return aValue === bValue ? 0 : aValue === null ? 1 : -1;
+    }
+    return direction === "asc" ? aValue - bValue : bValue - aValue;
+  });
+}
+
+// Rides between the same two stations, falling back to the addresses when
+// a station wasn't matched
+const getRouteId = (ride: EnrichedRide) =>
+  `${ride.startStation?.id ?? ride.startAddress}→${
+    ride.endStation?.id ?? ride.endAddress
+  }`;
+
+export function getRouteHistory(
+  rides: EnrichedRide[],
+  ride: EnrichedRide
+): RouteHistory {
+  const routeId = getRouteId(ride);
+  const routeRides = sortRides(
+    rides.filter((r) => getRouteId(r) === routeId),
+    "date",
+    "asc"
+  );
+  return { rides: routeRides, position: routeRides.indexOf(ride) };
+}
@@ -0,0 +1,226 @@
+import type { Ride } from "../types/ride";
+import {
+  getValue,
+  getAllValues,
+  openDatabase,
+  transactionDone,
+  META_STORE,
+  RIDES_STORE,
+} from "./db";
+import { getRideKey } from "./rideKey";
+import { CURRENT_DATA_VERSION, loadPersistedData } from "./persistedData";
+import { validateRides, type RejectedRide } from "./rideValidation";
+
+// Rides used to be stored as one JSON blob in localStorage under this key
+const LEGACY_STORAGE_KEY = "santander-cycle-rides";
+// Legacy rides that failed validation are set aside here when migrating, so
+// removing the legacy key doesn't lose them
+const REJECTED_LEGACY_STORAGE_KEY = "santander-cycle-rides-rejected";
+
+const META_KEY = "rides";
+
+export interface RideStoreMeta {
+  savedAt: number; // timestamp
+  rideCount: number;
+}
+
+// The meta record is stamped with the persisted data format version, so
+// stored rides go through the same migrations as imports and backups
+interface StoredMetaRecord extends RideStoreMeta {
+  version?: number;
+}
+
+// Records saved before the version was stamped hold version 2 rides
+const UNSTAMPED_DATA_VERSION = 2;
+
+const createMetaRecord = (meta: RideStoreMeta): StoredMetaRecord => ({
+  ...meta,
+  version: CURRENT_DATA_VERSION,
+});
+
+export interface StoredRides extends RideStoreMeta {
+  rides: Ride[];
+}
+
+export interface StorageEstimate {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+// Newest rides first, matching the order the scraper produces
+export function sortRides(rides: Ride[]): Ride[] {
+  return [...rides].sort((a, b) => (b.startTimeMs ?? 0) - (a.startTimeMs ?? 0));
+}
+
+async function writeRides(
+  rides: Ride[],
+  replace: boolean,
+  removedKeys: string[] = []
+): Promise<RideStoreMeta> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RIDES_STORE, META_STORE], "readwrite");
+  const ridesStore = transaction.objectStore(RIDES_STORE);
+  const metaStore = transaction.objectStore(META_STORE);
+
+  if (replace) {
+    ridesStore.clear();
+  }
+  removedKeys.forEach((key) => ridesStore.delete(key));
+  rides.forEach((ride) => ridesStore.put(ride, getRideKey(ride)));
+
+  // Count inside the same transaction so the metadata can't drift
+  const meta: RideStoreMeta = { savedAt: Date.now(), rideCount: 0 };
+  const countRequest = ridesStore.count();
+  countRequest.onsuccess = () => {
+    meta.rideCount = countRequest.result;
+    metaStore.put(createMetaRecord(meta), META_KEY);
+  };
+
+  await transactionDone(transaction);
+  return meta;
+}
+
+// Replace the stored rides with a new set
+export function saveRides(rides: Ride[]): Promise<RideStoreMeta> {
+  return writeRides(rides, true);
+}
+
+// Insert or update rides by key, leaving other stored rides untouched.
+// `removedKeys` drops records that an updated ride now supersedes.
+export function upsertRides(
+  rides: Ride[],
+  removedKeys: string[] = []
+): Promise<RideStoreMeta> {
+  return writeRides(rides, false, removedKeys);
+}
+
+export async function clearRides(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RIDES_STORE, META_STORE], "readwrite");
+  transaction.objectStore(RIDES_STORE).clear();
+  transaction.objectStore(META_STORE).delete(META_KEY);
+  await transactionDone(transaction);
+}
+
+interface LegacyRides extends StoredRides {
+  rejected: RejectedRide[];
+}
+
+// Parse the legacy localStorage blob, in whichever format version it was
+// saved
+function readLegacyRides(): LegacyRides | null {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    const { rides, savedAt } = loadPersistedData(JSON.parse(stored));
+    const { validRides, rejected } = validateRides(rides);
+    return {
+      rides: validRides,
+      savedAt,
+      rideCount: validRides.length,
+      rejected,
+    };
+  } catch (err) {
+    console.warn("Failed to read legacy saved rides:", err);
+    return null;
+  }
+}
+
+// Move rides from localStorage into IndexedDB. The legacy key is only
+// removed once the rides are safely written and any rides that failed
+// validation have been set aside; data that can't be read is left in place
+// rather than deleting the only copy.
+async function migrateLegacyRides(): Promise<void> {
+  const legacy = readLegacyRides();
+  if (!legacy) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction([RIDES_STORE, META_STORE], "readwrite");
+  const ridesStore = transaction.objectStore(RIDES_STORE);
+  const metaStore = transaction.objectStore(META_STORE);
+  legacy.rides.forEach((ride) => ridesStore.put(ride, getRideKey(ride)));
+
+  // Count the store rather than the legacy rides, which may share keys
+  const meta: RideStoreMeta = { savedAt: legacy.savedAt, rideCount: 0 };
+  const countRequest = ridesStore.count();
+  countRequest.onsuccess = () => {
+    meta.rideCount = countRequest.result;
+    metaStore.put(createMetaRecord(meta), META_KEY);
+  };
+  await transactionDone(transaction);
+
+  if (legacy.rejected.length > 0) {
+    try {
+      localStorage.setItem(
+        REJECTED_LEGACY_STORAGE_KEY,
+        JSON.stringify(legacy.rejected)
+      );
+    } catch (err) {
+      console.warn(
+        "Couldn't set aside invalid legacy rides, keeping the legacy copy:",
+        err
+      );
+      return;
+    }
+    console.warn(
+      `${legacy.rejected.length} legacy saved rides failed validation and were kept under "${REJECTED_LEGACY_STORAGE_KEY}"`
+    );
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+export async function loadRides(): Promise<StoredRides | null> {
+  try {
+    await openDatabase();
+  } catch (err) {
+    // Without IndexedDB, fall back to rides still saved the old way
+    const legacy = readLegacyRides();
+    if (!legacy) throw err;
+    console.warn("IndexedDB unavailable, using legacy saved rides:", err);
+    return { ...legacy, rides: sortRides(legacy.rides) };
+  }
+
+  if (localStorage.getItem(LEGACY_STORAGE_KEY) !== null) {
+    await migrateLegacyRides();
+  }
+
+  const [storedRides, meta] = await Promise.all([
+    getAllValues<unknown>(RIDES_STORE),
+    getValue<StoredMetaRecord>(META_STORE, META_KEY),
+  ]);
+  if (storedRides.length === 0) return null;
+
+  // Older records are migrated on every load until the next save stamps
+  // them. Station mappings and tariffs are saved under their own keys by
+  // useStationOverrides and useTariffs.
+  const { rides, savedAt } = loadPersistedData({
+    version: meta?.version ?? UNSTAMPED_DATA_VERSION,
+    savedAt: meta?.savedAt ?? Date.now(),
+    rides: storedRides,
+    stationOverrides: {},
+    tariffs: null,
+  });
+
+  // Skip any records that no longer match the schema rather than losing
+  // the whole history
+  const { validRides } = validateRides(rides);
+  if (validRides.length === 0) return null;
+
+  return {
+    rides: sortRides(validRides),
+    savedAt,
+    rideCount: validRides.length,
+  };
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    if (usage === undefined || quota === undefined) return null;
+    return { usage, quota };
+  } catch (err) {
+    console.warn("Failed to estimate storage usage:", err);
+    return null;
+  }
+}
@@ -0,0 +1,42 @@
+import { RideSchema } from "../schemas/ride";
+import type { Ride } from "../types/ride";
+
+export interface RideIssue {
+  path: string; // e.g. "priceBreakdown.0.amount", empty for the ride itself
+  message: string;
+}
+
+export interface RejectedRide {
+  index: number; // position in the imported data
+  ride: unknown; // the row as it was imported
+  issues: RideIssue[];
+}
+
+export interface RideValidationReport {
+  validRides: Ride[];
+  rejected: RejectedRide[];
+}
+
+// Validate each ride on its own, so one malformed ride doesn't stop the
+// rest from being imported
+export function validateRides(rides: unknown[]): RideValidationReport {
+  const report: RideValidationReport = { validRides: [], rejected: [] };
+
+  rides.forEach((ride, index) => {
+    const result = RideSchema.safeParse(ride);
+    if (result.success) {
+      report.validRides.push(result.data);
+      return;
+    }
+    report.rejected.push({
+      index,
+      ride,
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.map(String).join("."),
+        message: issue.message,
+      })),
+    });
+  });
+
+  return report;
+}
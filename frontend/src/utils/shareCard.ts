@@ -0,0 +1,460 @@
+import { BRAND_COLORS, fitText, setFont } from "./canvas";
+import type { RideStats, StationStats } from "./rideAggregates";
+
+// Draws a shareable summary card onto a canvas. Everything is drawn locally
+// (no map tiles), so the canvas can always be exported as a PNG.
+
+export type ShareStatId =
+  | "totalRides"
+  | "totalDistance"
+  | "favouriteStation"
+  | "longestStreak"
+  | "busiestMonth"
+  | "totalTime"
+  | "stationsVisited"
+  | "eBikeTrips";
+
+export type ShareTemplateId = "square" | "landscape" | "story";
+
+interface ShareStatValue {
+  value: string;
+  detail?: string;
+}
+
+interface ShareStat {
+  id: ShareStatId;
+  label: string;
+  getValue: (
+    stats: RideStats,
+    hideStationNames: boolean
+  ) => ShareStatValue | null;
+}
+
+interface ShareTemplate {
+  id: ShareTemplateId;
+  label: string;
+  width: number;
+  height: number;
+  layout: "stacked" | "side-by-side"; // stats above or beside the map
+  statColumns: number;
+  statsShare: number; // fraction of the content area used by the stats
+}
+
+export interface ShareCardOptions {
+  template: ShareTemplateId;
+  statIds: ShareStatId[];
+  hideStationNames: boolean;
+  stats: RideStats;
+  stationStats: StationStats[];
+}
+
+export const MAX_SHARE_STATS = 6;
+
+const KM_PER_MILE = 1.60934;
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 1440) {
+    return `${Math.floor(minutes / 60)} hr ${minutes % 60} min`;
+  }
+  return `${Math.floor(minutes / 1440)} days ${Math.floor(
+    (minutes % 1440) / 60
+  )} hr`;
+}
+
+export const SHARE_STATS: ShareStat[] = [
+  {
+    id: "totalRides",
+    label: "Total Rides",
+    getValue: (stats) => ({ value: stats.totalRides.toLocaleString() }),
+  },
+  {
+    id: "totalDistance",
+    label: "Distance Cycled",
+    getValue: (stats) =>
+      stats.totalDistanceKm > 0
+        ? {
+            value: `${Math.round(
+              stats.totalDistanceKm / KM_PER_MILE
+            ).toLocaleString()} mi`,
+            detail: `${Math.round(stats.totalDistanceKm).toLocaleString()} km`,
+          }
+        : null,
+  },
+  {
+    id: "favouriteStation",
+    label: "Favourite Station",
+    getValue: (stats, hideStationNames) =>
+      stats.favouriteStation && stats.maxVisits > 0
+        ? hideStationNames
+          ? { value: `${stats.maxVisits} visits`, detail: "to one station" }
+          : {
+              value: stats.favouriteStation.name,
+              detail: `${stats.maxVisits} visits`,
+            }
+        : null,
+  },
+  {
+    id: "longestStreak",
+    label: "Longest Streak",
+    getValue: (stats) =>
+      stats.longestStreak > 0
+        ? {
+            value: `${stats.longestStreak} day${
+              stats.longestStreak !== 1 ? "s" : ""
+            }`,
+            detail: "riding in a row",
+          }
+        : null,
+  },
+  {
+    id: "busiestMonth",
+    label: "Busiest Month",
+    getValue: (stats) =>
+      stats.busiestMonth
+        ? {
+            value: new Date(
+              stats.busiestMonth.year,
+              stats.busiestMonth.month
+            ).toLocaleDateString("en-GB", { month: "long", year: "numeric" }),
+            detail: `${stats.busiestMonth.count} rides`,
+          }
+        : null,
+  },
+  {
+    id: "totalTime",
+    label: "Time in the Saddle",
+    getValue: (stats) =>
+      stats.totalTimeCyclingMinutes > 0
+        ? { value: formatDuration(stats.totalTimeCyclingMinutes) }
+        : null,
+  },
+  {
+    id: "stationsVisited",
+    label: "Stations Visited",
+    getValue: (stats) =>
+      stats.stationsVisited > 0
+        ? {
+            value: stats.stationsVisited.toLocaleString(),
+            detail:
+              stats.totalStations > 0
+                ? `of ${stats.totalStations.toLocaleString()}`
+                : undefined,
+          }
+        : null,
+  },
+  {
+    id: "eBikeTrips",
+    label: "E-bike Trips",
+    getValue: (stats) =>
+      stats.eBikeTrips > 0
+        ? { value: stats.eBikeTrips.toLocaleString() }
+        : null,
+  },
+];
+
+export const DEFAULT_SHARE_STATS: ShareStatId[] = [
+  "totalRides",
+  "totalDistance",
+  "favouriteStation",
+  "longestStreak",
+  "busiestMonth",
+];
+
+export const SHARE_TEMPLATES: ShareTemplate[] = [
+  {
+    id: "square",
+    label: "Square",
+    width: 1080,
+    height: 1080,
+    layout: "stacked",
+    statColumns: 3,
+    statsShare: 0.5,
+  },
+  {
+    id: "landscape",
+    label: "Landscape",
+    width: 1200,
+    height: 630,
+    layout: "side-by-side",
+    statColumns: 2,
+    statsShare: 0.55,
+  },
+  {
+    id: "story",
+    label: "Story",
+    width: 1080,
+    height: 1920,
+    layout: "stacked",
+    statColumns: 2,
+    statsShare: 0.55,
+  },
+];
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function drawStatTile(
+  ctx: CanvasRenderingContext2D,
+  rect: Rect,
+  label: string,
+  { value, detail }: ShareStatValue
+) {
+  const padding = rect.height * 0.12;
+  const innerWidth = rect.width - padding * 2;
+
+  ctx.fillStyle = BRAND_COLORS.tile;
+  ctx.beginPath();
+  ctx.roundRect(rect.x, rect.y, rect.width, rect.height, rect.height * 0.08);
+  ctx.fill();
+
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+
+  ctx.fillStyle = BRAND_COLORS.muted;
+  ctx.fillText(
+    fitText(ctx, label.toUpperCase(), innerWidth, rect.height * 0.12, 12),
+    rect.x + padding,
+    rect.y + padding
+  );
+
+  ctx.fillStyle = BRAND_COLORS.text;
+  const valueSize = Math.min(rect.height * 0.3, rect.width * 0.16);
+  ctx.fillText(
+    fitText(ctx, value, innerWidth, valueSize, 16, "bold"),
+    rect.x + padding,
+    rect.y + rect.height * 0.36
+  );
+
+  if (detail) {
+    ctx.fillStyle = BRAND_COLORS.faint;
+    ctx.fillText(
+      fitText(ctx, detail, innerWidth, rect.height * 0.11, 12),
+      rect.x + padding,
+      rect.y + rect.height * 0.74
+    );
+  }
+}
+
+function drawStats(
+  ctx: CanvasRenderingContext2D,
+  rect: Rect,
+  columns: number,
+  gap: number,
+  tiles: { label: string; value: ShareStatValue }[]
+) {
+  if (tiles.length === 0) return;
+  const cols = Math.min(columns, tiles.length);
+  const rows = Math.ceil(tiles.length / cols);
+  const tileWidth = (rect.width - gap * (cols - 1)) / cols;
+  const tileHeight = Math.min(
+    (rect.height - gap * (rows - 1)) / rows,
+    tileWidth * 0.75
+  );
+
+  tiles.forEach((tile, i) => {
+    drawStatTile(
+      ctx,
+      {
+        x: rect.x + (i % cols) * (tileWidth + gap),
+        y: rect.y + Math.floor(i / cols) * (tileHeight + gap),
+        width: tileWidth,
+        height: tileHeight,
+      },
+      tile.label,
+      tile.value
+    );
+  });
+}
+
+// Plot visited stations as dots sized by visits. Longitude is scaled by
+// the cosine of the latitude so London isn't stretched sideways.
+function drawStationMap(
+  ctx: CanvasRenderingContext2D,
+  rect: Rect,
+  stationStats: StationStats[]
+) {
+  ctx.fillStyle = BRAND_COLORS.tile;
+  ctx.beginPath();
+  ctx.roundRect(rect.x, rect.y, rect.width, rect.height, 24);
+  ctx.fill();
+
+  const visited = stationStats.filter(
+    (stat) =>
+      stat.total > 0 && (stat.station.lat !== 0 || stat.station.long !== 0)
+  );
+  if (visited.length === 0) {
+    ctx.fillStyle = BRAND_COLORS.faint;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    setFont(ctx, 24);
+    ctx.fillText(
+      "No stations to show",
+      rect.x + rect.width / 2,
+      rect.y + rect.height / 2
+    );
+    return;
+  }
+
+  const meanLat =
+    visited.reduce((sum, stat) => sum + stat.station.lat, 0) / visited.length;
+  const lngScale = Math.cos((meanLat * Math.PI) / 180);
+  const points = visited.map((stat) => ({
+    x: stat.station.long * lngScale,
+    y: -stat.station.lat,
+    total: stat.total,
+  }));
+
+  const minX = Math.min(...points.map((p) => p.x));
+  const maxX = Math.max(...points.map((p) => p.x));
+  const minY = Math.min(...points.map((p) => p.y));
+  const maxY = Math.max(...points.map((p) => p.y));
+  const padding = Math.min(rect.width, rect.height) * 0.1;
+  // Avoid dividing by zero when every ride used the same station
+  const spanX = Math.max(maxX - minX, 0.005);
+  const spanY = Math.max(maxY - minY, 0.005);
+  const scale = Math.min(
+    (rect.width - padding * 2) / spanX,
+    (rect.height - padding * 2) / spanY
+  );
+  const offsetX = rect.x + (rect.width - spanX * scale) / 2;
+  const offsetY = rect.y + (rect.height - spanY * scale) / 2;
+
+  const maxTotal = Math.max(...points.map((p) => p.total));
+  const maxRadius = Math.min(rect.width, rect.height) * 0.035;
+  // Busiest stations are drawn last so they sit on top
+  [...points]
+    .sort((a, b) => a.total - b.total)
+    .forEach((point) => {
+      const radius = Math.max(3, maxRadius * Math.sqrt(point.total / maxTotal));
+      ctx.globalAlpha = 0.35 + 0.65 * (point.total / maxTotal);
+      ctx.fillStyle = BRAND_COLORS.accent;
+      ctx.beginPath();
+      ctx.arc(
+        offsetX + (point.x - minX) * scale,
+        offsetY + (point.y - minY) * scale,
+        radius,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    });
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = BRAND_COLORS.faint;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "bottom";
+  setFont(ctx, 20);
+  ctx.fillText(
+    `${visited.length.toLocaleString()} stations visited`,
+    rect.x + 20,
+    rect.y + rect.height - 16
+  );
+}
+
+export function drawShareCard(
+  canvas: HTMLCanvasElement,
+  {
+    template: templateId,
+    statIds,
+    hideStationNames,
+    stats,
+    stationStats,
+  }: ShareCardOptions
+): void {
+  const template =
+    SHARE_TEMPLATES.find((t) => t.id === templateId) ?? SHARE_TEMPLATES[0];
+  const { width, height } = template;
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const unit = Math.min(width, height) / 100;
+  const padding = unit * 6;
+
+  ctx.fillStyle = BRAND_COLORS.background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = BRAND_COLORS.accent;
+  ctx.fillRect(0, 0, width, unit * 1.2);
+
+  // Header
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  ctx.fillStyle = BRAND_COLORS.accent;
+  setFont(ctx, unit * 3, "bold");
+  ctx.fillText("SANTANDER CYCLE STATS", padding, padding);
+  ctx.fillStyle = BRAND_COLORS.text;
+  setFont(ctx, unit * 7, "bold");
+  ctx.fillText("My rides in numbers", padding, padding + unit * 4.5);
+  if (stats.earliestRide) {
+    ctx.fillStyle = BRAND_COLORS.muted;
+    setFont(ctx, unit * 3.2);
+    ctx.fillText(
+      `Since ${stats.earliestRide.toLocaleDateString("en-GB", {
+        month: "long",
+        year: "numeric",
+      })}`,
+      padding,
+      padding + unit * 13
+    );
+  }
+
+  // Footer
+  const footerHeight = unit * 5;
+  ctx.fillStyle = BRAND_COLORS.faint;
+  ctx.textBaseline = "bottom";
+  setFont(ctx, unit * 2.4);
+  ctx.fillText(
+    "Made with Santander Cycle Stats",
+    padding,
+    height - padding / 2
+  );
+  ctx.textAlign = "right";
+  ctx.fillText(
+    new Date().toLocaleDateString("en-GB"),
+    width - padding,
+    height - padding / 2
+  );
+
+  const content: Rect = {
+    x: padding,
+    y: padding + unit * 19,
+    width: width - padding * 2,
+    height: height - padding * 1.5 - unit * 19 - footerHeight,
+  };
+  const gap = unit * 2.5;
+
+  let statsRect: Rect;
+  let mapRect: Rect;
+  if (template.layout === "side-by-side") {
+    const statsWidth = (content.width - gap) * template.statsShare;
+    statsRect = { ...content, width: statsWidth };
+    mapRect = {
+      ...content,
+      x: content.x + statsWidth + gap,
+      width: content.width - statsWidth - gap,
+    };
+  } else {
+    const statsHeight = (content.height - gap) * template.statsShare;
+    statsRect = { ...content, height: statsHeight };
+    mapRect = {
+      ...content,
+      y: content.y + statsHeight + gap,
+      height: content.height - statsHeight - gap,
+    };
+  }
+
+  const tiles = statIds.slice(0, MAX_SHARE_STATS).flatMap((id) => {
+    const stat = SHARE_STATS.find((s) => s.id === id);
+    const value = stat?.getValue(stats, hideStationNames);
+    return stat && value ? [{ label: stat.label, value }] : [];
+  });
+
+  drawStats(ctx, statsRect, template.statColumns, gap, tiles);
+  drawStationMap(ctx, mapRect, stationStats);
+}
@@ -0,0 +1,188 @@
+import type { EnrichedRide } from "../types/ride";
+import { parsePricePence } from "./enrichRides";
+import { formatPaymentMethod } from "./rideLog";
+
+// Spending totals from each ride's price, its priceBreakdown line items and
+// the card it was charged to
+
+export interface SpendingPeriod {
+  key: string; // YYYY-MM or YYYY
+  label: string;
+  spentPence: number;
+  pricedRides: number; // rides with a recorded price, including free ones
+  pricedDistanceKm: number; // distance of priced rides with matched stations
+  pricedDistancePence: number; // spend on those same rides, for cost per km
+}
+
+export interface LineItemSpend {
+  title: string;
+  spentPence: number;
+  count: number;
+}
+
+export interface CardSpend {
+  card: string;
+  spentPence: number;
+  rides: number;
+}
+
+export interface OvertimeRide {
+  ride: EnrichedRide;
+  overtimePence: number;
+}
+
+export interface SpendingSummary {
+  totalPence: number;
+  pricedRides: number;
+  pricedDistanceKm: number;
+  pricedDistancePence: number;
+  months: SpendingPeriod[]; // every month from the first priced ride to the last
+  years: SpendingPeriod[];
+  lineItems: LineItemSpend[]; // biggest first
+  cards: CardSpend[]; // biggest first
+  overtimeRides: OvertimeRide[]; // newest first
+  overtimePence: number;
+}
+
+// Line items charged for going over the free ride time
+const OVERTIME_PATTERN = /extra|additional|over ?time|excess/i;
+
+export const isOvertimeItem = (title: string | null) =>
+  !!title && OVERTIME_PATTERN.test(title);
+
+// Line item amounts can be negative ("-£1.65") for discounts and refunds
+export function parseAmountPence(amount: string | null): number | null {
+  const pence = parsePricePence(amount);
+  if (pence === null) return null;
+  return amount?.trim().startsWith("-") ? -pence : pence;
+}
+
+export const formatPence = (pence: number) =>
+  `${pence < 0 ? "-" : ""}£${(Math.abs(pence) / 100).toFixed(2)}`;
+
+const MONTH_NAMES = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+// Every month from the earliest to the latest YYYY-MM key, in order
+export function getMonthRange(
+  monthKeys: string[]
+): { key: string; label: string }[] {
+  const sortedKeys = [...monthKeys].sort();
+  const range: { key: string; label: string }[] = [];
+  if (sortedKeys.length === 0) return range;
+
+  let [year, month] = sortedKeys[0].split("-").map(Number);
+  const last = sortedKeys[sortedKeys.length - 1];
+  for (;;) {
+    const key = `${year}-${String(month).padStart(2, "0")}`;
+    range.push({ key, label: `${MONTH_NAMES[month - 1]} ${year}` });
+    if (key >= last) return range;
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year++;
+  }
+}
+
+const emptyPeriod = (key: string, label: string): SpendingPeriod => ({
+  key,
+  label,
+  spentPence: 0,
+  pricedRides: 0,
+  pricedDistanceKm: 0,
+  pricedDistancePence: 0,
+});
+
+function addToPeriod(period: SpendingPeriod, ride: EnrichedRide) {
+  period.spentPence += ride.pricePence ?? 0;
+  period.pricedRides++;
+  if (ride.distanceKm !== null) {
+    period.pricedDistanceKm += ride.distanceKm;
+    period.pricedDistancePence += ride.pricePence ?? 0;
+  }
+}
+
+export function computeSpending(rides: EnrichedRide[]): SpendingSummary {
+  const byMonth = new Map<string, SpendingPeriod>();
+  const byYear = new Map<string, SpendingPeriod>();
+  const lineItems = new Map<string, LineItemSpend>();
+  const cards = new Map<string, CardSpend>();
+  const overtimeRides: OvertimeRide[] = [];
+  const total = emptyPeriod("all", "All time");
+
+  rides.forEach((ride) => {
+    if (ride.pricePence === null) return;
+    addToPeriod(total, ride);
+
+    if (ride.dateParts) {
+      const { year, month, monthKey } = ride.dateParts;
+      const monthPeriod =
+        byMonth.get(monthKey) ??
+        emptyPeriod(monthKey, `${MONTH_NAMES[month]} ${year}`);
+      const yearPeriod =
+        byYear.get(String(year)) ?? emptyPeriod(String(year), String(year));
+      addToPeriod(monthPeriod, ride);
+      addToPeriod(yearPeriod, ride);
+      byMonth.set(monthKey, monthPeriod);
+      byYear.set(String(year), yearPeriod);
+    }
+
+    const card = formatPaymentMethod(ride.paymentMethod) ?? "Unknown card";
+    const cardSpend = cards.get(card) ?? { card, spentPence: 0, rides: 0 };
+    cardSpend.spentPence += ride.pricePence;
+    cardSpend.rides++;
+    cards.set(card, cardSpend);
+
+    let overtimePence = 0;
+    ride.priceBreakdown?.forEach((item) => {
+      const pence = parseAmountPence(item.amount);
+      if (pence === null) return;
+      // Group titles that only differ in case or spacing
+      const title = item.title?.trim().replace(/\s+/g, " ") || "Untitled";
+      const key = title.toLowerCase();
+      const itemSpend = lineItems.get(key) ?? {
+        title,
+        spentPence: 0,
+        count: 0,
+      };
+      itemSpend.spentPence += pence;
+      itemSpend.count++;
+      lineItems.set(key, itemSpend);
+      if (isOvertimeItem(item.title) && pence > 0) overtimePence += pence;
+    });
+    if (overtimePence > 0) overtimeRides.push({ ride, overtimePence });
+  });
+
+  // Fill in months without rides so charts show the gaps
+  const months = getMonthRange([...byMonth.keys()]).map(
+    ({ key, label }) => byMonth.get(key) ?? emptyPeriod(key, label)
+  );
+
+  const bySpend = <T extends { spentPence: number }>(a: T, b: T) =>
+    b.spentPence - a.spentPence;
+
+  return {
+    totalPence: total.spentPence,
+    pricedRides: total.pricedRides,
+    pricedDistanceKm: total.pricedDistanceKm,
+    pricedDistancePence: total.pricedDistancePence,
+    months,
+    years: [...byYear.values()].sort((a, b) => a.key.localeCompare(b.key)),
+    lineItems: [...lineItems.values()].sort(bySpend),
+    cards: [...cards.values()].sort(bySpend),
+    overtimeRides: overtimeRides.sort(
+      (a, b) => (b.ride.startTimeMs ?? 0) - (a.ride.startTimeMs ?? 0)
+    ),
+    overtimePence: overtimeRides.reduce((sum, r) => sum + r.overtimePence, 0),
+  };
+}
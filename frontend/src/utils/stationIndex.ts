@@ -0,0 +1,84 @@
+import type { Station } from "../schemas/station";
+import { calculateDistance } from "./geo";
+import { normaliseStationName } from "./stationNames";
+
+// Grid cell size for the spatial index (~550m north-south in London)
+const CELL_SIZE_DEG = 0.005;
+
+export interface StationIndex {
+  stations: Station[];
+  byId: Map<string, Station>;
+  byTerminal: Map<string, Station[]>;
+  byName: Map<string, Station[]>; // keyed by normalised name
+  // Stations within `radiusKm` of a point, nearest first
+  within: (lat: number, lon: number, radiusKm: number) => Station[];
+  nearest: (lat: number, lon: number, maxDistanceKm?: number) => Station | null;
+}
+
+const cellKey = (x: number, y: number) => `${x}:${y}`;
+
+function addToList<T>(map: Map<string, T[]>, key: string, value: T) {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+export function buildStationIndex(stations: Station[]): StationIndex {
+  const byId = new Map<string, Station>();
+  const byTerminal = new Map<string, Station[]>();
+  const byName = new Map<string, Station[]>();
+  const grid = new Map<string, Station[]>();
+
+  stations.forEach((station) => {
+    byId.set(station.id, station);
+    if (station.terminalName) {
+      addToList(byTerminal, station.terminalName, station);
+    }
+    addToList(byName, normaliseStationName(station.name), station);
+    addToList(
+      grid,
+      cellKey(
+        Math.floor(station.lat / CELL_SIZE_DEG),
+        Math.floor(station.long / CELL_SIZE_DEG)
+      ),
+      station
+    );
+  });
+
+  const within = (lat: number, lon: number, radiusKm: number): Station[] => {
+    // Longitude cells are narrower than latitude cells, so search wider
+    const latCells = Math.ceil(radiusKm / 111 / CELL_SIZE_DEG);
+    const lonCells = Math.ceil(
+      radiusKm / (111 * Math.cos((lat * Math.PI) / 180)) / CELL_SIZE_DEG
+    );
+    const cx = Math.floor(lat / CELL_SIZE_DEG);
+    const cy = Math.floor(lon / CELL_SIZE_DEG);
+
+    const found: Array<{ station: Station; distance: number }> = [];
+    for (let x = cx - latCells; x <= cx + latCells; x++) {
+      for (let y = cy - lonCells; y <= cy + lonCells; y++) {
+        grid.get(cellKey(x, y))?.forEach((station) => {
+          const distance = calculateDistance(
+            lat,
+            lon,
+            station.lat,
+            station.long
+          );
+          if (distance <= radiusKm) found.push({ station, distance });
+        });
+      }
+    }
+
+    return found
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ station }) => station);
+  };
+
+  const nearest = (lat: number, lon: number, maxDistanceKm = 0.5) =>
+    within(lat, lon, maxDistanceKm)[0] ?? null;
+
+  return { stations, byId, byTerminal, byName, within, nearest };
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import type { Station } from "../schemas/station";
+import type { Ride } from "../types/ride";
+import { buildStationIndex } from "./stationIndex";
+import { createStationMatcher, resolveRideStations } from "./stationMatching";
+
+// Station names as they appear in the TfL feed, stray spaces included. Ids,
+// terminals and coordinates are only illustrative.
+function station(
+  id: string,
+  name: string,
+  terminalName: string,
+  lat: number,
+  long: number
+): Station {
+  return {
+    id,
+    name,
+    terminalName,
+    lat,
+    long,
+    installed: true,
+    locked: false,
+    installDate: null,
+    removalDate: null,
+    temporary: false,
+    nbBikes: 0,
+    nbStandardBikes: 0,
+    nbEBikes: 0,
+    nbEmptyDocks: 0,
+    nbDocks: 0,
+  };
+}
+
+const STATIONS = [
+  station("1", "River Street , Clerkenwell", "001023", 51.5292, -0.1099),
+  station("11", "Brunswick Square, Bloomsbury", "001033", 51.5238, -0.1223),
+  station("154", "Waterloo Station 3, Waterloo", "001154", 51.5039, -0.1134),
+  station("191", "Hyde Park Corner, Hyde Park", "001171", 51.5031, -0.153),
+  station("213", "Park Lane , Hyde Park", "001230", 51.5098, -0.1574),
+  station("262", "Park Lane, Mayfair", "001262", 51.5062, -0.1523),
+  station("272", "Baylis Road, Waterloo", "001272", 51.5015, -0.1105),
+  station("280", "Tooley Street, Bermondsey", "001280", 51.5031, -0.0799),
+  station("340", "St. James's Square, St. James's", "001340", 51.5074, -0.1345),
+];
+
+const createMatcher = () => createStationMatcher(buildStationIndex(STATIONS));
+
+describe("createStationMatcher", () => {
+  it("matches names that are identical once normalised", () => {
+    const match = createMatcher().match("Baylis Rd, Waterloo");
+    expect(match?.station.id).toBe("272");
+    expect(match?.strategy).toBe("exact");
+    expect(match?.confidence).toBe(1);
+  });
+
+  it("matches a terminal number in the address", () => {
+    const match = createMatcher().match("Dock 001154");
+    expect(match?.station.id).toBe("154");
+    expect(match?.strategy).toBe("terminal");
+  });
+
+  it("matches the only station on a street", () => {
+    const matcher = createMatcher();
+    expect(matcher.match("Tooley St")).toMatchObject({
+      strategy: "street",
+      confidence: 0.9,
+    });
+    // A different area is less certain
+    const withArea = matcher.match("Tooley Street, London Bridge");
+    expect(withArea?.station.id).toBe("280");
+    expect(withArea?.strategy).toBe("street");
+    expect(withArea?.confidence).toBe(0.8);
+  });
+
+  it("uses the area to pick between stations on the same street", () => {
+    const matcher = createMatcher();
+    const match = matcher.match("Park Lane, Mayfair, London");
+    expect(match?.station.id).toBe("262");
+    expect(match?.confidence).toBe(0.85);
+
+    const unknownArea = matcher.match("Park Lane, Marble Arch");
+    expect(unknownArea?.strategy).toBe("street");
+    expect(unknownArea?.confidence).toBe(0.5);
+  });
+
+  it("matches a name contained in a station name", () => {
+    const match = createMatcher().match("Station 3, Waterloo");
+    expect(match?.station.id).toBe("154");
+    expect(match?.strategy).toBe("contains");
+    expect(match?.confidence).toBe(0.7);
+  });
+
+  it("falls back to the most words in common", () => {
+    const match = createMatcher().match("Brunswick Square Bloomsbury");
+    expect(match?.station.id).toBe("11");
+    expect(match?.strategy).toBe("word-overlap");
+  });
+
+  it("matches coordinates to the nearest station in range", () => {
+    const matcher = createMatcher();
+    const match = matcher.match("51.5033, -0.1527");
+    expect(match?.station.id).toBe("191");
+    expect(match?.strategy).toBe("coordinates");
+    expect(matcher.match("51.4000, -0.3000")).toBeNull();
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(createMatcher().match("Somewhere in Croydon")).toBeNull();
+    expect(createMatcher().match(null)).toBeNull();
+  });
+
+  it("suggests stations sharing words with the address", () => {
+    expect(createMatcher().suggest("Brunswick Sq")[0]?.id).toBe("11");
+  });
+});
+
+describe("resolveRideStations", () => {
+  const ride = (startAddress: string, endAddress: string) =>
+    ({ startAddress, endAddress } as Ride);
+
+  it("resolves every distinct start and end address", () => {
+    const matches = resolveRideStations(
+      [
+        ride("Baylis Rd, Waterloo", "Tooley St"),
+        ride("Tooley St", "Somewhere in Croydon"),
+      ],
+      buildStationIndex(STATIONS)
+    );
+    expect([...matches.keys()]).toEqual([
+      "Baylis Rd, Waterloo",
+      "Tooley St",
+      "Somewhere in Croydon",
+    ]);
+    expect(matches.get("Tooley St")?.station.id).toBe("280");
+    expect(matches.get("Somewhere in Croydon")).toBeNull();
+  });
+
+  it("uses pinned stations over automatic matching", () => {
+    const matches = resolveRideStations(
+      [ride("Park Lane, Marble Arch", "Tooley St")],
+      buildStationIndex(STATIONS),
+      { "Park Lane, Marble Arch": "213" }
+    );
+    expect(matches.get("Park Lane, Marble Arch")).toMatchObject({
+      strategy: "manual",
+      confidence: 1,
+    });
+    expect(matches.get("Park Lane, Marble Arch")?.station.id).toBe("213");
+    expect(matches.get("Tooley St")?.strategy).toBe("street");
+  });
+
+  it("ignores pins to stations that no longer exist", () => {
+    const matches = resolveRideStations(
+      [ride("Baylis Rd, Waterloo", "Baylis Rd, Waterloo")],
+      buildStationIndex(STATIONS),
+      { "Baylis Rd, Waterloo": "999" }
+    );
+    expect(matches.get("Baylis Rd, Waterloo")?.strategy).toBe("exact");
+  });
+});
@@ -0,0 +1,304 @@
+import type { Ride } from "../types/ride";
+import type { Station } from "../schemas/station";
+import { calculateDistance, parseCoordinates } from "./geo";
+import { pickStationForDate } from "./stationRegistry";
+import { normaliseStationName } from "./stationNames";
+import type { StationIndex } from "./stationIndex";
+
+// How a ride address was matched to a station, from most to least reliable
+export type MatchStrategy =
+  | "exact"
+  | "terminal"
+  | "street"
+  | "contains"
+  | "word-overlap"
+  | "coordinates"
+  | "manual";
+
+export interface StationMatch {
+  station: Station;
+  strategy: MatchStrategy;
+  confidence: number; // 0 - 1
+  // Every station that has carried this name or terminal over time (current
+  // and removed), used to pick the one in service on a given ride date
+  candidates: Station[];
+}
+
+// Resolved stations keyed by the raw ride address (null = unresolved)
+export type StationMatches = Map<string, StationMatch | null>;
+
+// Manually pinned station ids keyed by the raw ride address
+export type StationOverrides = Record<string, string>;
+
+// Matches below this confidence are treated as unreliable
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Maximum distance for a coordinate-based match
+const MAX_COORDINATE_DISTANCE_KM = 0.5;
+
+function getWords(normalisedName: string): string[] {
+  return normalisedName.split(/[,\s]+/).filter((w) => w.length > 2);
+}
+
+interface IndexedStation {
+  station: Station;
+  normalisedName: string;
+  street: string;
+  area: string;
+  words: Set<string>;
+}
+
+export interface StationMatcher {
+  match: (address: string | null) => StationMatch | null;
+  suggest: (address: string, limit?: number) => Station[];
+}
+
+// Build a matcher over an indexed station list. Lookups are cached per
+// address so each distinct address is only resolved once.
+export function createStationMatcher(index: StationIndex): StationMatcher {
+  const indexed: IndexedStation[] = index.stations.map((station) => {
+    const normalisedName = normaliseStationName(station.name);
+    const [street = "", ...rest] = normalisedName.split(", ");
+    return {
+      station,
+      normalisedName,
+      street,
+      area: rest.join(", "),
+      words: new Set(getWords(normalisedName)),
+    };
+  });
+
+  const byStreet = new Map<string, IndexedStation[]>();
+  indexed.forEach((entry) => {
+    const sameStreet = byStreet.get(entry.street) ?? [];
+    sameStreet.push(entry);
+    byStreet.set(entry.street, sameStreet);
+  });
+
+  // Stations sharing a name or terminal with the matched one, matched first
+  const getCandidates = (station: Station): Station[] => {
+    const candidates = new Set<Station>([station]);
+    index.byName
+      .get(normaliseStationName(station.name))
+      ?.forEach((candidate) => candidates.add(candidate));
+    index.byTerminal
+      .get(station.terminalName)
+      ?.forEach((candidate) => candidates.add(candidate));
+    return Array.from(candidates);
+  };
+
+  const cache = new Map<string, StationMatch | null>();
+
+  const resolve = (
+    address: string
+  ): Omit<StationMatch, "candidates"> | null => {
+    const normalisedAddress = normaliseStationName(address);
+    if (!normalisedAddress) return null;
+
+    // 1. Identical name once normalised
+    const exact = index.byName.get(normalisedAddress)?.[0];
+    if (exact) {
+      return { station: exact, strategy: "exact", confidence: 1 };
+    }
+
+    // 2. Terminal number embedded in the address
+    const terminalMatch = address.match(/\d{6}/);
+    if (terminalMatch) {
+      const station = index.byTerminal.get(terminalMatch[0])?.[0];
+      if (station) {
+        return { station, strategy: "terminal", confidence: 0.95 };
+      }
+    }
+
+    // 3. Same street segment, disambiguated by area if several share it
+    const [addressStreet = "", ...addressRest] = normalisedAddress.split(", ");
+    const addressArea = addressRest.join(", ");
+    const sameStreet = byStreet.get(addressStreet);
+    if (sameStreet && sameStreet.length === 1) {
+      return {
+        station: sameStreet[0].station,
+        strategy: "street",
+        confidence: addressArea ? 0.8 : 0.9,
+      };
+    }
+    if (sameStreet && sameStreet.length > 1) {
+      const areaMatch = addressArea
+        ? sameStreet.find(
+            (entry) =>
+              entry.area.includes(addressArea) ||
+              addressArea.includes(entry.area)
+          )
+        : undefined;
+      if (areaMatch) {
+        return {
+          station: areaMatch.station,
+          strategy: "street",
+          confidence: 0.85,
+        };
+      }
+      return {
+        station: sameStreet[0].station,
+        strategy: "street",
+        confidence: 0.5,
+      };
+    }
+
+    // 4. One name contains the other - prefer the most specific (longest) name
+    let containsMatch: IndexedStation | null = null;
+    let containsCount = 0;
+    for (const entry of indexed) {
+      if (
+        normalisedAddress.includes(entry.normalisedName) ||
+        entry.normalisedName.includes(normalisedAddress)
+      ) {
+        containsCount++;
+        if (
+          !containsMatch ||
+          entry.normalisedName.length > containsMatch.normalisedName.length
+        ) {
+          containsMatch = entry;
+        }
+      }
+    }
+    if (containsMatch) {
+      return {
+        station: containsMatch.station,
+        strategy: "contains",
+        confidence: containsCount === 1 ? 0.7 : 0.5,
+      };
+    }
+
+    // 5. Best word overlap (at least 2 words in common)
+    const addressWords = getWords(normalisedAddress);
+    let bestOverlap: IndexedStation | null = null;
+    let bestScore = 0;
+    for (const entry of indexed) {
+      const matchingWords = addressWords.filter((w) => entry.words.has(w));
+      if (matchingWords.length < 2) continue;
+      const score =
+        matchingWords.length / Math.max(addressWords.length, entry.words.size);
+      if (score > bestScore) {
+        bestScore = score;
+        bestOverlap = entry;
+      }
+    }
+    if (bestOverlap) {
+      return {
+        station: bestOverlap.station,
+        strategy: "word-overlap",
+        confidence: Math.round((0.3 + bestScore * 0.4) * 100) / 100,
+      };
+    }
+
+    // 6. Coordinates in the address - nearest station within range
+    const coords = parseCoordinates(address);
+    if (coords) {
+      const nearest = index.nearest(
+        coords.lat,
+        coords.lon,
+        MAX_COORDINATE_DISTANCE_KM
+      );
+      if (nearest) {
+        const distance = calculateDistance(
+          coords.lat,
+          coords.lon,
+          nearest.lat,
+          nearest.long
+        );
+        return {
+          station: nearest,
+          strategy: "coordinates",
+          confidence:
+            Math.round(
+              (0.6 * (1 - distance / MAX_COORDINATE_DISTANCE_KM) + 0.2) * 100
+            ) / 100,
+        };
+      }
+    }
+
+    return null;
+  };
+
+  // Rank stations by how many words they share with the address
+  const suggest = (address: string, limit = 5): Station[] => {
+    const normalisedAddress = normaliseStationName(address);
+    const [addressStreet = ""] = normalisedAddress.split(", ");
+    const addressWords = getWords(normalisedAddress);
+    if (addressWords.length === 0) return [];
+
+    return indexed
+      .map((entry) => {
+        const matchingWords = addressWords.filter((w) => entry.words.has(w));
+        let score =
+          matchingWords.length /
+          Math.max(addressWords.length, entry.words.size);
+        if (entry.street === addressStreet) score += 1;
+        return { entry, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ entry }) => entry.station);
+  };
+
+  return {
+    match: (address) => {
+      if (!address || indexed.length === 0) return null;
+      if (!cache.has(address)) {
+        const match = resolve(address);
+        cache.set(
+          address,
+          match ? { ...match, candidates: getCandidates(match.station) } : null
+        );
+      }
+      return cache.get(address) ?? null;
+    },
+    suggest,
+  };
+}
+
+// Resolve every distinct start/end address in a dataset. Manual overrides
+// win over automatic matching as long as the pinned station still exists.
+export function resolveRideStations(
+  rides: Ride[],
+  index: StationIndex,
+  overrides: StationOverrides = {},
+  onProgress?: (completed: number, total: number) => void
+): StationMatches {
+  const matcher = createStationMatcher(index);
+  const matches: StationMatches = new Map();
+
+  rides.forEach((ride, i) => {
+    [ride.startAddress, ride.endAddress].forEach((address) => {
+      if (!address || matches.has(address)) return;
+      const pinned = index.byId.get(overrides[address]);
+      matches.set(
+        address,
+        pinned
+          ? {
+              station: pinned,
+              strategy: "manual",
+              confidence: 1,
+              candidates: [pinned],
+            }
+          : matcher.match(address)
+      );
+    });
+    onProgress?.(i + 1, rides.length);
+  });
+
+  return matches;
+}
+
+// Look up the station for an address in a resolved dataset, picking the
+// station that was in service at the ride time when several have used it
+export function getMatchedStation(
+  matches: StationMatches,
+  address: string | null,
+  timeMs: number | null = null
+): Station | null {
+  if (!address) return null;
+  const match = matches.get(address);
+  if (!match) return null;
+  return pickStationForDate(match.candidates, timeMs);
+}
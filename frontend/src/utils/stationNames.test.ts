@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { normaliseStationName } from "./stationNames";
+
+describe("normaliseStationName", () => {
+  it("lowercases and drops apostrophes", () => {
+    expect(normaliseStationName("Queen's Gate, Kensington Gardens")).toBe(
+      "queens gate, kensington gardens"
+    );
+  });
+
+  it("ignores the stray space TfL leaves before some commas", () => {
+    expect(normaliseStationName("River Street , Clerkenwell")).toBe(
+      "river street, clerkenwell"
+    );
+    expect(normaliseStationName("Belgrove Street , King's Cross")).toBe(
+      "belgrove street, kings cross"
+    );
+  });
+
+  it("keeps the area suffix as its own segment", () => {
+    expect(normaliseStationName("Hyde Park Corner, Hyde Park")).toBe(
+      "hyde park corner, hyde park"
+    );
+    expect(
+      normaliseStationName("Waterloo Station 3, Waterloo").split(", ")
+    ).toEqual(["waterloo station 3", "waterloo"]);
+  });
+
+  it("expands Rd to Road", () => {
+    expect(normaliseStationName("Baylis Rd, Waterloo")).toBe(
+      normaliseStationName("Baylis Road, Waterloo")
+    );
+  });
+
+  it("expands other common abbreviations", () => {
+    expect(normaliseStationName("Brunswick Sq, Bloomsbury")).toBe(
+      "brunswick square, bloomsbury"
+    );
+    expect(normaliseStationName("Phillimore Gdns, Kensington")).toBe(
+      "phillimore gardens, kensington"
+    );
+  });
+
+  it('reads "St" at the end of a segment as Street', () => {
+    expect(normaliseStationName("Sedding St., Sloane Square")).toBe(
+      normaliseStationName("Sedding Street, Sloane Square")
+    );
+    expect(normaliseStationName("Tooley St, Bermondsey")).toBe(
+      "tooley street, bermondsey"
+    );
+  });
+
+  it('reads "St" anywhere else as Saint', () => {
+    expect(normaliseStationName("St. Chad's Street, King's Cross")).toBe(
+      "saint chads street, kings cross"
+    );
+    expect(normaliseStationName("Charlbert Street, St. John's Wood")).toBe(
+      "charlbert street, saint johns wood"
+    );
+  });
+
+  it("tells Saint and Street apart in the same name", () => {
+    expect(normaliseStationName("St. James's Square, St. James's")).toBe(
+      "saint jamess square, saint jamess"
+    );
+  });
+});
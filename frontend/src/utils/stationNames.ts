@@ -0,0 +1,48 @@
+// Common abbreviations found in TfL station names and ride addresses
+const ABBREVIATIONS: Record<string, string> = {
+  rd: "road",
+  sq: "square",
+  ave: "avenue",
+  av: "avenue",
+  pl: "place",
+  gdns: "gardens",
+  gdn: "garden",
+  ln: "lane",
+  stn: "station",
+  cres: "crescent",
+  terr: "terrace",
+  pk: "park",
+  nth: "north",
+  sth: "south",
+};
+
+// Normalise a segment of a station name ("St. James's Street" -> "saint jamess street")
+function normaliseSegment(segment: string): string {
+  const tokens = segment
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return tokens
+    .map((token, index) => {
+      // "St" at the end of a segment is a street, anywhere else it's a saint
+      if (token === "st") {
+        return index === tokens.length - 1 ? "street" : "saint";
+      }
+      return ABBREVIATIONS[token] ?? token;
+    })
+    .join(" ");
+}
+
+// Normalise a station name or address so that spelling variants compare equal.
+// Comma-separated segments are preserved ("<street>, <area>").
+export function normaliseStationName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .split(",")
+    .map(normaliseSegment)
+    .filter(Boolean)
+    .join(", ");
+}
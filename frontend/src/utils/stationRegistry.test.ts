@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { Station } from "../schemas/station";
+import { buildStationIndex } from "./stationIndex";
+import { createStationMatcher, getMatchedStation } from "./stationMatching";
+import { isStationActive, mergeStations } from "./stationRegistry";
+
+const MOVED_ON = Date.UTC(2016, 4, 1);
+
+function station(
+  id: string,
+  name: string,
+  installDate: number | null,
+  removalDate: number | null
+): Station {
+  return {
+    id,
+    name,
+    terminalName: `00${id.padStart(4, "0")}`,
+    lat: 51.5039,
+    long: -0.1134,
+    installed: removalDate === null,
+    locked: false,
+    installDate,
+    removalDate,
+    temporary: false,
+    nbBikes: 0,
+    nbStandardBikes: 0,
+    nbEBikes: 0,
+    nbEmptyDocks: 0,
+    nbDocks: 0,
+  };
+}
+
+// The live feed only knows the current dock; the registry remembers the one
+// it replaced under the same name, and a dock that has gone altogether
+const LIVE = [
+  station("154", "Waterloo Station 3, Waterloo", MOVED_ON, null),
+  station("272", "Baylis Road, Waterloo", null, null),
+];
+const HISTORICAL = [
+  station("9154", "Waterloo Station 3, Waterloo", null, MOVED_ON),
+  station("9300", "Sedding Street, Sloane Square", null, MOVED_ON),
+  station("272", "Baylis Road, Waterloo", null, MOVED_ON),
+];
+
+describe("mergeStations", () => {
+  it("appends historical stations the live feed doesn't have", () => {
+    expect(mergeStations(LIVE, HISTORICAL).map((s) => s.id)).toEqual([
+      "154",
+      "272",
+      "9154",
+      "9300",
+    ]);
+  });
+
+  it("prefers the live copy of a station in both", () => {
+    const merged = mergeStations(LIVE, HISTORICAL);
+    expect(merged.find((s) => s.id === "272")?.removalDate).toBeNull();
+  });
+});
+
+describe("isStationActive", () => {
+  it("is active from its install date until its removal date", () => {
+    const [current, removed] = [LIVE[0], HISTORICAL[0]];
+    expect(isStationActive(current, MOVED_ON - 1)).toBe(false);
+    expect(isStationActive(current, MOVED_ON)).toBe(true);
+    expect(isStationActive(removed, MOVED_ON - 1)).toBe(true);
+    expect(isStationActive(removed, MOVED_ON)).toBe(false);
+  });
+});
+
+describe("matching old ride names", () => {
+  const index = buildStationIndex(mergeStations(LIVE, HISTORICAL));
+  const matcher = createStationMatcher(index);
+
+  it("matches a ride name that only a removed station carried", () => {
+    const match = matcher.match("Sedding St, Sloane Square");
+    expect(match?.station.id).toBe("9300");
+    expect(match?.strategy).toBe("exact");
+  });
+
+  it("picks the station in service on the ride date", () => {
+    const address = "Waterloo Station 3, Waterloo";
+    const matches = new Map([[address, matcher.match(address)]]);
+    const before = getMatchedStation(matches, address, Date.UTC(2014, 0, 1));
+    const after = getMatchedStation(matches, address, Date.UTC(2020, 0, 1));
+    expect(before?.id).toBe("9154");
+    expect(after?.id).toBe("154");
+  });
+});
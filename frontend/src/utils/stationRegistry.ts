@@ -0,0 +1,69 @@
+import type { Station } from "../schemas/station";
+import {
+  HistoricalStationsDatasetSchema,
+  type HistoricalStation,
+} from "../schemas/historicalStation";
+import historicalStationsData from "../data/historicalStations.json";
+
+// Bundled registry of stations that have since been removed or renamed.
+// Bump `version` in the JSON file whenever entries are added or corrected.
+const historicalDataset = HistoricalStationsDatasetSchema.parse(
+  historicalStationsData
+);
+
+export const HISTORICAL_STATIONS_VERSION = historicalDataset.version;
+
+function toStation(historical: HistoricalStation): Station {
+  return {
+    ...historical,
+    installed: historical.removalDate === null,
+    locked: false,
+    temporary: false,
+    nbBikes: 0,
+    nbStandardBikes: 0,
+    nbEBikes: 0,
+    nbEmptyDocks: 0,
+    nbDocks: 0,
+  };
+}
+
+export function getHistoricalStations(): Station[] {
+  return historicalDataset.stations.map(toStation);
+}
+
+// Merge the live feed with the historical registry. Live data wins for any
+// station present in both; historical-only stations are appended.
+export function mergeStations(
+  live: Station[],
+  historical: Station[] = getHistoricalStations()
+): Station[] {
+  const liveIds = new Set(live.map((s) => s.id));
+  return [...live, ...historical.filter((s) => !liveIds.has(s.id))];
+}
+
+// Whether a station was in service at the given time
+export function isStationActive(station: Station, timeMs: number): boolean {
+  if (station.installDate !== null && station.installDate > timeMs) {
+    return false;
+  }
+  if (station.removalDate !== null && station.removalDate <= timeMs) {
+    return false;
+  }
+  return true;
+}
+
+// Whether a station is part of the current network
+export function isCurrentStation(station: Station): boolean {
+  return station.removalDate === null;
+}
+
+// Pick the station that was in service at the given time, falling back to
+// the first candidate if none was (or the time is unknown)
+export function pickStationForDate(
+  candidates: Station[],
+  timeMs: number | null
+): Station | null {
+  if (candidates.length === 0) return null;
+  if (timeMs === null || candidates.length === 1) return candidates[0];
+  return candidates.find((s) => isStationActive(s, timeMs)) ?? candidates[0];
+}
@@ -0,0 +1,129 @@
+import type { EnrichedRide } from "../types/ride";
+import { formatCsv } from "./csv";
+import { downloadFile, getExportFileName } from "./download";
+import { formatPaymentMethod } from "./rideLog";
+import type { RouteStats, StationStats } from "./rideAggregates";
+import { createXlsx } from "./xlsx";
+
+export type CellValue = string | number | null;
+
+export interface ExportTable {
+  name: string; // sheet name, also used in the file name
+  columns: string[];
+  rows: CellValue[][];
+}
+
+export type ExportFormat = "csv" | "xlsx";
+
+const round = (value: number | null, places: number) =>
+  value === null ? null : Number(value.toFixed(places));
+
+// Local time as "YYYY-MM-DD HH:MM:SS", which spreadsheets read as a date
+function formatDateTime(ms: number | null): string | null {
+  if (ms === null) return null;
+  const date = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds()
+  )}`;
+}
+
+export function exportTable(table: ExportTable, format: ExportFormat): void {
+  if (format === "csv") {
+    // The byte order mark makes Excel read the file as UTF-8
+    downloadFile(
+      `\ufeff${formatCsv([table.columns, ...table.rows])}`,
+      getExportFileName(table.name, "csv"),
+      "text/csv;charset=utf-8"
+    );
+  } else {
+    downloadFile(
+      createXlsx([table]),
+      getExportFileName(table.name, "xlsx"),
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+  }
+}
+
+export function getStationsExportTable(stats: StationStats[]): ExportTable {
+  return {
+    name: "Stations",
+    columns: ["Station", "Station ID", "Pickups", "Dropoffs", "Total", "Net"],
+    rows: stats.map((stat) => [
+      stat.station.name,
+      stat.station.id,
+      stat.pickups,
+      stat.dropoffs,
+      stat.total,
+      stat.net,
+    ]),
+  };
+}
+
+export function getRoutesExportTable(routes: RouteStats[]): ExportTable {
+  return {
+    name: "Routes",
+    columns: [
+      "Start Station",
+      "End Station",
+      "Count",
+      "Distance (km)",
+      "Avg Duration (min)",
+      "Min Duration (min)",
+      "Max Duration (min)",
+      "First Ride",
+      "Last Ride",
+    ],
+    rows: routes.map((route) => [
+      route.startStation.name,
+      route.endStation.name,
+      route.count,
+      round(route.distanceKm, 2),
+      route.avgDurationMinutes,
+      route.minDurationMinutes,
+      route.maxDurationMinutes,
+      formatDateTime(route.firstRideMs),
+      formatDateTime(route.lastRideMs),
+    ]),
+  };
+}
+
+export function getRidesExportTable(rides: EnrichedRide[]): ExportTable {
+  return {
+    name: "Rides",
+    columns: [
+      "Ride ID",
+      "Start Time",
+      "End Time",
+      "Start Address",
+      "Start Station",
+      "Start Station ID",
+      "End Address",
+      "End Station",
+      "End Station ID",
+      "Duration (min)",
+      "Distance (km)",
+      "Price (£)",
+      "E-bike",
+      "Payment Method",
+    ],
+    rows: rides.map((ride) => [
+      ride.rideId,
+      formatDateTime(ride.startTimeMs),
+      formatDateTime(ride.endTimeMs),
+      ride.startAddress,
+      ride.startStation?.name ?? null,
+      ride.startStation?.id ?? null,
+      ride.endAddress,
+      ride.endStation?.name ?? null,
+      ride.endStation?.id ?? null,
+      round(ride.durationMs === null ? null : ride.durationMs / 60000, 1),
+      round(ride.distanceKm, 2),
+      ride.pricePence === null ? null : ride.pricePence / 100,
+      ride.isEBike ? "Yes" : "No",
+      formatPaymentMethod(ride.paymentMethod),
+    ]),
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type { EnrichedRide } from "../types/ride";
+import { getDateParts } from "./enrichRides";
+import { DEFAULT_TARIFFS, getRuleSetForDate, simulateCosts } from "./tariffs";
+
+// Only the fields the simulation reads. `start` is local time.
+function ride(
+  start: string,
+  durationMinutes: number,
+  pricePence: number | null = null,
+  isEBike = false
+): EnrichedRide {
+  return {
+    durationMs: durationMinutes * 60000,
+    pricePence,
+    isEBike,
+    dateParts: getDateParts(new Date(start)),
+  } as EnrichedRide;
+}
+
+describe("getRuleSetForDate", () => {
+  it("uses the rule set in effect on the day", () => {
+    expect(getRuleSetForDate(DEFAULT_TARIFFS, "2022-09-11").name).toBe(
+      "£2 access fee"
+    );
+    expect(getRuleSetForDate(DEFAULT_TARIFFS, "2022-09-12").name).toBe(
+      "Per-ride pricing"
+    );
+  });
+
+  it("uses the earliest rule set for older rides", () => {
+    expect(getRuleSetForDate(DEFAULT_TARIFFS, "2010-07-30").name).toBe(
+      "£2 access fee"
+    );
+  });
+});
+
+describe("simulateCosts", () => {
+  it("charges the pre-2022 access fee once per day", () => {
+    const { totals } = simulateCosts(
+      [
+        ride("2021-01-05T08:10", 20),
+        ride("2021-01-05T12:30", 15),
+        ride("2021-01-05T18:45", 25),
+        ride("2021-01-06T08:10", 20),
+      ],
+      DEFAULT_TARIFFS
+    );
+    expect(totals.payAsYouGo).toBe(400);
+  });
+
+  it("charges the per-ride fee on every ride from September 2022", () => {
+    const { totals } = simulateCosts(
+      [
+        ride("2023-05-02T08:10", 20),
+        ride("2023-05-02T12:30", 15),
+        ride("2023-05-02T18:45", 25),
+      ],
+      DEFAULT_TARIFFS
+    );
+    expect(totals.payAsYouGo).toBe(495);
+    expect(totals.dayPass).toBe(300);
+  });
+
+  it("adds overtime blocks and the e-bike surcharge to the fee", () => {
+    const { totals } = simulateCosts(
+      [ride("2021-01-05T08:10", 45), ride("2023-05-02T08:10", 45, null, true)],
+      DEFAULT_TARIFFS
+    );
+    // £2 + £2 overtime, then £1.65 + £1.65 overtime + £1 e-bike
+    expect(totals.payAsYouGo).toBe(400 + 430);
+  });
+
+  it("totals each month and fills in months without rides", () => {
+    const simulation = simulateCosts(
+      [
+        ride("2021-01-05T08:10", 20, 200),
+        ride("2021-01-05T18:45", 20, 0),
+        ride("2021-03-10T08:10", 20, 200),
+      ],
+      DEFAULT_TARIFFS
+    );
+
+    expect(simulation.months.map((m) => m.key)).toEqual([
+      "2021-01",
+      "2021-02",
+      "2021-03",
+    ]);
+    expect(simulation.months[0]).toMatchObject({
+      rides: 2,
+      paidPence: 200,
+      costs: { payAsYouGo: 200, dayPass: 200, monthly: 200, annual: 750 },
+      cheapest: "payAsYouGo",
+    });
+    // The annual fee is spread over every month it covers
+    expect(simulation.months[1]).toMatchObject({
+      rides: 0,
+      costs: { payAsYouGo: 0, annual: 750 },
+      cheapest: null,
+    });
+    expect(simulation.months[2].costs.payAsYouGo).toBe(200);
+
+    expect(simulation).toMatchObject({
+      rides: 3,
+      pricedRides: 3,
+      paidPence: 400,
+      totals: { payAsYouGo: 400, dayPass: 400, monthly: 400, annual: 9000 },
+      cheapest: "payAsYouGo",
+    });
+  });
+
+  it("skips rides without a date", () => {
+    const undated = { ...ride("2021-01-05T08:10", 20), dateParts: null };
+    expect(simulateCosts([undated], DEFAULT_TARIFFS)).toMatchObject({
+      rides: 0,
+      months: [],
+      cheapest: null,
+    });
+  });
+});
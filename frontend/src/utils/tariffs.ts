@@ -0,0 +1,271 @@
+import type { TariffRuleSet } from "../schemas/tariffs";
+import type { EnrichedRide, RideDateParts } from "../types/ride";
+import { getMonthRange } from "./spending";
+
+// Re-prices ride history under each Santander Cycles plan, using whichever
+// tariff rule set was in effect on the day of each ride
+
+export const TARIFF_PLAN_IDS = [
+  "payAsYouGo",
+  "dayPass",
+  "monthly",
+  "annual",
+] as const;
+export type TariffPlanId = (typeof TARIFF_PLAN_IDS)[number];
+
+export const TARIFF_PLAN_LABELS: Record<TariffPlanId, string> = {
+  payAsYouGo: "Pay as you go",
+  dayPass: "Day passes",
+  monthly: "Monthly membership",
+  annual: "Annual membership",
+};
+
+// Approximate published TfL prices, as a starting point for editing
+export const DEFAULT_TARIFFS: TariffRuleSet[] = [
+  {
+    // £2 bought 24 hours of access, so pay as you go was a day pass
+    name: "£2 access fee",
+    validFrom: "2013-01-02",
+    payAsYouGo: { feePence: 200, includedMinutes: 30, chargedPer: "day" },
+    dayPass: { feePence: 200, includedMinutes: 30 },
+    monthly: null,
+    annual: { feePence: 9000, includedMinutes: 30 },
+    extraPence: 200,
+    extraBlockMinutes: 30,
+    eBikeSurchargePence: 0,
+  },
+  {
+    name: "Per-ride pricing",
+    validFrom: "2022-09-12",
+    payAsYouGo: { feePence: 165, includedMinutes: 30, chargedPer: "ride" },
+    dayPass: { feePence: 300, includedMinutes: 30 },
+    monthly: { feePence: 1500, includedMinutes: 60 },
+    annual: { feePence: 9000, includedMinutes: 60 },
+    extraPence: 165,
+    extraBlockMinutes: 30,
+    eBikeSurchargePence: 100,
+  },
+];
+
+export interface SimulatedMonth {
+  key: string; // YYYY-MM
+  label: string;
+  rides: number;
+  paidPence: number; // what the priced rides actually cost
+  costs: Record<TariffPlanId, number>;
+  cheapest: TariffPlanId | null; // null for months without rides
+}
+
+export interface CostSimulation {
+  rides: number; // rides with a known date
+  pricedRides: number;
+  paidPence: number;
+  totals: Record<TariffPlanId, number>;
+  cheapest: TariffPlanId | null;
+  months: SimulatedMonth[]; // every month from the first ride to the last
+}
+
+const emptyCosts = (): Record<TariffPlanId, number> => ({
+  payAsYouGo: 0,
+  dayPass: 0,
+  monthly: 0,
+  annual: 0,
+});
+
+// Earlier plans win ties
+const getCheapestPlan = (costs: Record<TariffPlanId, number>) =>
+  TARIFF_PLAN_IDS.reduce((best, plan) =>
+    costs[plan] < costs[best] ? plan : best
+  );
+
+// The rule set in effect on a date, using the earliest for older rides
+export function getRuleSetForDate(
+  tariffs: TariffRuleSet[],
+  dateKey: string
+): TariffRuleSet {
+  const sorted = [...tariffs].sort((a, b) =>
+    a.validFrom.localeCompare(b.validFrom)
+  );
+  return sorted.reduce(
+    (current, ruleSet) => (ruleSet.validFrom <= dateKey ? ruleSet : current),
+    sorted[0]
+  );
+}
+
+// Overtime and e-bike charges for one ride given its free time. Rides
+// without a duration are assumed to stay within it
+function getRideChargesPence(
+  ride: EnrichedRide,
+  ruleSet: TariffRuleSet,
+  includedMinutes: number
+): number {
+  const overMinutes =
+    ride.durationMs !== null ? ride.durationMs / 60000 - includedMinutes : 0;
+  const extraPence =
+    overMinutes > 0
+      ? Math.ceil(overMinutes / ruleSet.extraBlockMinutes) * ruleSet.extraPence
+      : 0;
+  return extraPence + (ride.isEBike ? ruleSet.eBikeSurchargePence : 0);
+}
+
+// Adds a year to a YYYY-MM-DD key
+const addYear = (dateKey: string) =>
+  `${Number(dateKey.slice(0, 4)) + 1}${dateKey.slice(4)}`;
+
+// Adds months to a YYYY-MM key
+function addMonths(monthKey: string, count: number): string {
+  const [year, month] = monthKey.split("-").map(Number);
+  const index = year * 12 + month - 1 + count;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+// Pay as you go pays each ride's fee, or each day's access fee. Day passes
+// are bought on each day with a ride and monthly memberships for each
+// calendar month with a ride.
+// An annual membership starts with the first ride and is renewed by the
+// first ride after it lapses; its fee is spread over the 12 months it
+// covers. Plans that weren't on sale fall back to pay as you go.
+export function simulateCosts(
+  rides: EnrichedRide[],
+  tariffs: TariffRuleSet[]
+): CostSimulation {
+  const datedRides = rides
+    .filter(
+      (ride): ride is EnrichedRide & { dateParts: RideDateParts } =>
+        ride.dateParts !== null
+    )
+    .sort((a, b) => a.dateParts.dateKey.localeCompare(b.dateParts.dateKey));
+
+  type MonthTotals = Pick<SimulatedMonth, "rides" | "paidPence" | "costs">;
+  const byMonth = new Map<string, MonthTotals>();
+  const getMonth = (key: string) => {
+    const month = byMonth.get(key) ?? {
+      rides: 0,
+      paidPence: 0,
+      costs: emptyCosts(),
+    };
+    byMonth.set(key, month);
+    return month;
+  };
+
+  const totals = emptyCosts();
+  const charge = (monthKey: string, plan: TariffPlanId, pence: number) => {
+    getMonth(monthKey).costs[plan] += pence;
+    totals[plan] += pence;
+  };
+
+  const payAsYouGoDays = new Set<string>();
+  const dayPassDays = new Set<string>();
+  const monthlyMonths = new Set<string>();
+  let annualUntil: string | null = null; // first day after the membership
+  let pricedRides = 0;
+  let paidPence = 0;
+
+  datedRides.forEach((ride) => {
+    const { dateKey, monthKey } = ride.dateParts;
+    const ruleSet = getRuleSetForDate(tariffs, dateKey);
+    const month = getMonth(monthKey);
+    month.rides++;
+    if (ride.pricePence !== null) {
+      month.paidPence += ride.pricePence;
+      paidPence += ride.pricePence;
+      pricedRides++;
+    }
+
+    const { payAsYouGo } = ruleSet;
+    const paysFee =
+      payAsYouGo.chargedPer === "ride" || !payAsYouGoDays.has(dateKey);
+    payAsYouGoDays.add(dateKey);
+    const payAsYouGoPence =
+      (paysFee ? payAsYouGo.feePence : 0) +
+      getRideChargesPence(ride, ruleSet, payAsYouGo.includedMinutes);
+    charge(monthKey, "payAsYouGo", payAsYouGoPence);
+
+    if (ruleSet.dayPass) {
+      if (!dayPassDays.has(dateKey)) {
+        dayPassDays.add(dateKey);
+        charge(monthKey, "dayPass", ruleSet.dayPass.feePence);
+      }
+      charge(
+        monthKey,
+        "dayPass",
+        getRideChargesPence(ride, ruleSet, ruleSet.dayPass.includedMinutes)
+      );
+    } else {
+      charge(monthKey, "dayPass", payAsYouGoPence);
+    }
+
+    if (ruleSet.monthly) {
+      if (!monthlyMonths.has(monthKey)) {
+        monthlyMonths.add(monthKey);
+        charge(monthKey, "monthly", ruleSet.monthly.feePence);
+      }
+      charge(
+        monthKey,
+        "monthly",
+        getRideChargesPence(ride, ruleSet, ruleSet.monthly.includedMinutes)
+      );
+    } else {
+      charge(monthKey, "monthly", payAsYouGoPence);
+    }
+
+    if (annualUntil !== null && dateKey < annualUntil) {
+      charge(
+        monthKey,
+        "annual",
+        getRideChargesPence(
+          ride,
+          ruleSet,
+          ruleSet.annual?.includedMinutes ?? ruleSet.payAsYouGo.includedMinutes
+        )
+      );
+    } else if (ruleSet.annual) {
+      annualUntil = addYear(dateKey);
+      totals.annual += ruleSet.annual.feePence;
+      const monthlyShare = ruleSet.annual.feePence / 12;
+      for (let i = 0; i < 12; i++) {
+        getMonth(addMonths(monthKey, i)).costs.annual += monthlyShare;
+      }
+      charge(
+        monthKey,
+        "annual",
+        getRideChargesPence(ride, ruleSet, ruleSet.annual.includedMinutes)
+      );
+    } else {
+      charge(monthKey, "annual", payAsYouGoPence);
+    }
+  });
+
+  // Only show months up to the last ride, though the final membership's
+  // fee is counted in full in the totals
+  const lastRideMonth = datedRides[datedRides.length - 1]?.dateParts.monthKey;
+  const monthKeys = [...byMonth.keys()].filter(
+    (key) => lastRideMonth !== undefined && key <= lastRideMonth
+  );
+  const months = getMonthRange(monthKeys).map(
+    ({ key, label }): SimulatedMonth => {
+      const month = getMonth(key);
+      const costs = { ...month.costs, annual: Math.round(month.costs.annual) };
+      return {
+        key,
+        label,
+        rides: month.rides,
+        paidPence: month.paidPence,
+        costs,
+        cheapest: month.rides > 0 ? getCheapestPlan(costs) : null,
+      };
+    }
+  );
+
+  return {
+    rides: datedRides.length,
+    pricedRides,
+    paidPence,
+    totals,
+    cheapest: datedRides.length > 0 ? getCheapestPlan(totals) : null,
+    months,
+  };
+}
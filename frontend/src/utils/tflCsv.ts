@@ -0,0 +1,201 @@
+import type { Ride } from "../types/ride";
+import type { StationIndex } from "./stationIndex";
+import { createCsvParser, csvValue } from "./csv";
+import { streamFileText } from "./rideImport";
+
+// Importer for TfL's open cycle hire usage data
+// (https://cycling.data.tfl.gov.uk/). Both the original column layout and
+// the one used since late 2022 are supported.
+
+type TflColumn =
+  | "rentalId"
+  | "durationSeconds"
+  | "durationMs"
+  | "startDate"
+  | "endDate"
+  | "startStationId"
+  | "startStationName"
+  | "endStationId"
+  | "endStationName";
+
+const COLUMN_ALIASES: Record<TflColumn, string[]> = {
+  rentalId: ["rental id", "number"],
+  durationSeconds: ["duration"],
+  durationMs: ["total duration (ms)"],
+  startDate: ["start date"],
+  endDate: ["end date"],
+  startStationId: ["startstation id", "start station number"],
+  startStationName: ["startstation name", "start station"],
+  endStationId: ["endstation id", "end station number"],
+  endStationName: ["endstation name", "end station"],
+};
+
+const REQUIRED_COLUMNS: TflColumn[] = ["startDate", "startStationName"];
+
+export interface TflCsvProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+}
+
+export interface TflCsvResult {
+  rides: Ride[];
+  skippedRows: number; // rows with the wrong number of columns
+}
+
+export function isCsvFile(file: File): boolean {
+  return /\.csv(\.gz)?$/i.test(file.name) || file.type === "text/csv";
+}
+
+// Last Sunday of a month at 01:00 UTC, when UK clocks change
+function lastSundayUtc(year: number, month: number): number {
+  const date = new Date(Date.UTC(year, month + 1, 0, 1));
+  date.setUTCDate(date.getUTCDate() - date.getUTCDay());
+  return date.getTime();
+}
+
+// Parse "dd/mm/yyyy HH:MM[:SS]" or "yyyy-mm-dd HH:MM[:SS]" as London time.
+// Times within the hour of a clock change may be off by an hour.
+export function parseTflDate(value: string | null): number | null {
+  if (!value) return null;
+  const match =
+    value.match(/^(\d{2})\/(\d{2})\/(\d{4})[ T](\d{2}):(\d{2})(?::(\d{2}))?/) ??
+    value.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return null;
+
+  const [, a, b, c, hour, minute, second] = match;
+  const [year, month, day] = value.includes("/")
+    ? [Number(c), Number(b), Number(a)]
+    : [Number(a), Number(b), Number(c)];
+
+  const wallClock = Date.UTC(
+    year,
+    month - 1,
+    day,
+    Number(hour),
+    Number(minute),
+    Number(second ?? 0)
+  );
+  const isBst =
+    wallClock >= lastSundayUtc(year, 2) && wallClock < lastSundayUtc(year, 9);
+  return wallClock - (isBst ? 60 * 60 * 1000 : 0);
+}
+
+function findColumns(header: string[]): Partial<Record<TflColumn, number>> {
+  const normalised = header.map((h) => h.trim().toLowerCase());
+  const columns: Partial<Record<TflColumn, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as TflColumn[]).forEach((column) => {
+    const index = normalised.findIndex((h) =>
+      COLUMN_ALIASES[column].includes(h)
+    );
+    if (index !== -1) columns[column] = index;
+  });
+  return columns;
+}
+
+// Use the station feed's name where the CSV's station ID (old layout) or
+// terminal number (new layout) is known, so matching is exact
+function resolveStationName(
+  index: StationIndex,
+  stationId: string | null,
+  csvName: string | null
+): string | null {
+  if (stationId) {
+    const station =
+      index.byId.get(stationId) ?? index.byTerminal.get(stationId)?.[0];
+    if (station) return station.name;
+  }
+  return csvName;
+}
+
+export async function readTflCsvFile(
+  file: File,
+  index: StationIndex,
+  onProgress?: (progress: TflCsvProgress) => void
+): Promise<TflCsvResult> {
+  const rides: Ride[] = [];
+  let columns: Partial<Record<TflColumn, number>> | null = null;
+  let columnCount = 0;
+  let skippedRows = 0;
+
+  const parser = createCsvParser((row) => {
+    if (!columns) {
+      columns = findColumns(row);
+      columnCount = row.length;
+      const missing = REQUIRED_COLUMNS.filter(
+        (c) => columns?.[c] === undefined
+      );
+      if (missing.length > 0) {
+        throw new Error(
+          "This doesn't look like a TfL usage data CSV - couldn't find the start date and start station columns"
+        );
+      }
+      return;
+    }
+    if (row.length !== columnCount) {
+      skippedRows++;
+      return;
+    }
+
+    const get = (column: TflColumn) => {
+      const i = columns?.[column];
+      return i === undefined ? null : csvValue(row[i]);
+    };
+
+    const startTimeMs = parseTflDate(get("startDate"));
+    let endTimeMs = parseTflDate(get("endDate"));
+    if (endTimeMs === null && startTimeMs !== null) {
+      const durationMs = get("durationMs");
+      const durationSeconds = get("durationSeconds");
+      if (durationMs) {
+        endTimeMs = startTimeMs + Number(durationMs);
+      } else if (durationSeconds) {
+        endTimeMs = startTimeMs + Number(durationSeconds) * 1000;
+      }
+    }
+
+    rides.push({
+      rideId: get("rentalId"),
+      startTimeMs,
+      endTimeMs: Number.isFinite(endTimeMs) ? endTimeMs : null,
+      startAddress: resolveStationName(
+        index,
+        get("startStationId"),
+        get("startStationName")
+      ),
+      endAddress: resolveStationName(
+        index,
+        get("endStationId"),
+        get("endStationName")
+      ),
+      // Usage data doesn't include what each ride cost
+      price: null,
+      priceBreakdown: null,
+      paymentMethod: null,
+    });
+  });
+
+  const reader = (
+    await streamFileText(file, (bytesRead) =>
+      onProgress?.({ bytesRead, totalBytes: file.size, rows: rides.length })
+    )
+  ).getReader();
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(value);
+    }
+    parser.end();
+  } catch (err) {
+    // Stop reading the rest of the file
+    await reader.cancel().catch(() => undefined);
+    throw err;
+  }
+
+  if (!columns) {
+    throw new Error(`${file.name} is empty`);
+  }
+  return { rides, skippedRows };
+}
@@ -0,0 +1,276 @@
+import type { EnrichedRide } from "../types/ride";
+import { BRAND_COLORS, fitText, setFont, wrapText } from "./canvas";
+import type { YearInReview } from "./yearInReview";
+
+// Story-style slides for the year in review, drawn on canvas so each one
+// can be saved as an image
+
+export interface WrappedSlide {
+  id: string;
+  eyebrow: string;
+  headline: string;
+  detail: string | null;
+}
+
+export const SLIDE_WIDTH = 1080;
+export const SLIDE_HEIGHT = 1920;
+
+const KM_PER_MILE = 1.60934;
+
+// Background gradients, cycled through slide by slide
+const SLIDE_BACKGROUNDS: [string, string][] = [
+  ["#ec0000", "#7f1d1d"],
+  ["#1e3a8a", "#0f172a"],
+  ["#065f46", "#0f172a"],
+  ["#6b21a8", "#1e1b4b"],
+  ["#9a3412", "#431407"],
+  ["#0e7490", "#0f172a"],
+];
+
+const plural = (count: number, noun: string) =>
+  `${count.toLocaleString()} ${noun}${count !== 1 ? "s" : ""}`;
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString("en-GB", { day: "numeric", month: "long" });
+
+const formatMiles = (km: number) =>
+  plural(Math.round(km / KM_PER_MILE), "mile");
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return plural(minutes, "minute");
+  if (minutes < 1440) return plural(Math.round(minutes / 60), "hour");
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  return `${plural(days, "day")}, ${plural(hours, "hour")}`;
+}
+
+function describeRide(ride: EnrichedRide): string {
+  const start = ride.startStation?.name ?? ride.startAddress ?? "Unknown";
+  const end = ride.endStation?.name ?? ride.endAddress ?? "Unknown";
+  return `${start} → ${end}`;
+}
+
+function compareToPreviousYear({ stats, previousYear }: YearInReview): string {
+  if (!previousYear) return "Your first year of riding - welcome aboard!";
+  const change =
+    ((stats.totalRides - previousYear.totalRides) / previousYear.totalRides) *
+    100;
+  if (Math.round(change) === 0) {
+    return `Exactly as many as ${previousYear.year}, to the percent`;
+  }
+  return `${Math.abs(Math.round(change))}% ${
+    change > 0 ? "more" : "fewer"
+  } than ${previousYear.year} (${previousYear.totalRides.toLocaleString()})`;
+}
+
+export function getWrappedSlides(review: YearInReview): WrappedSlide[] {
+  const { year, stats, firstRide, lastRide, newStationCount, previousYear } =
+    review;
+  const slides: (WrappedSlide | null)[] = [
+    {
+      id: "intro",
+      eyebrow: "Santander Cycles",
+      headline: `Your ${year} Wrapped`,
+      detail: "A look back at your year on two wheels",
+    },
+    {
+      id: "rides",
+      eyebrow: `Rides in ${year}`,
+      headline: plural(stats.totalRides, "ride"),
+      detail: compareToPreviousYear(review),
+    },
+    stats.totalDistanceKm > 0
+      ? {
+          id: "distance",
+          eyebrow: "Distance",
+          headline: formatMiles(stats.totalDistanceKm),
+          detail: `${formatDuration(
+            stats.totalTimeCyclingMinutes
+          )} in the saddle${
+            previousYear && previousYear.totalDistanceKm > 0
+              ? `, vs ${formatMiles(previousYear.totalDistanceKm)} in ${
+                  previousYear.year
+                }`
+              : ""
+          }`,
+        }
+      : null,
+    firstRide?.startDate
+      ? {
+          id: "first-ride",
+          eyebrow: "Where it started",
+          headline: formatDay(firstRide.startDate),
+          detail: `Your first ride of ${year}: ${describeRide(firstRide)}`,
+        }
+      : null,
+    stats.busiestMonth
+      ? {
+          id: "busiest-month",
+          eyebrow: "Busiest month",
+          headline: new Date(
+            stats.busiestMonth.year,
+            stats.busiestMonth.month
+          ).toLocaleDateString("en-GB", { month: "long" }),
+          detail: `${plural(stats.busiestMonth.count, "ride")} in one month`,
+        }
+      : null,
+    stats.longestStreak > 1
+      ? {
+          id: "streak",
+          eyebrow: "Longest streak",
+          headline: plural(stats.longestStreak, "day"),
+          detail: "of riding in a row",
+        }
+      : null,
+    stats.mostRidesInDay > 1 && stats.mostRidesInDayDate
+      ? {
+          id: "busiest-day",
+          eyebrow: "Busiest day",
+          headline: plural(stats.mostRidesInDay, "ride"),
+          detail: `on ${formatDay(stats.mostRidesInDayDate)}`,
+        }
+      : null,
+    stats.favouriteStation && stats.maxVisits > 0
+      ? {
+          id: "favourite-station",
+          eyebrow: "Favourite station",
+          headline: stats.favouriteStation.name,
+          detail: `You started or finished ${plural(
+            stats.maxVisits,
+            "ride"
+          )} here`,
+        }
+      : null,
+    newStationCount > 0
+      ? {
+          id: "new-stations",
+          eyebrow: "Exploring",
+          headline: plural(newStationCount, "new station"),
+          detail: `discovered, out of ${plural(
+            stats.stationsVisited,
+            "station"
+          )} you used this year`,
+        }
+      : null,
+    stats.fastestJourney
+      ? {
+          id: "fastest",
+          eyebrow: "Fastest journey",
+          headline: `${Math.round(
+            stats.fastestJourney.speedKph / KM_PER_MILE
+          )} mph`,
+          detail: `${stats.fastestJourney.distanceKm.toFixed(1)} km in ${plural(
+            stats.fastestJourney.durationMinutes,
+            "minute"
+          )}`,
+        }
+      : null,
+    lastRide?.startDate && lastRide !== firstRide
+      ? {
+          id: "last-ride",
+          eyebrow: "And finally",
+          headline: formatDay(lastRide.startDate),
+          detail: `Your last ride of ${year}: ${describeRide(lastRide)}`,
+        }
+      : null,
+    {
+      id: "outro",
+      eyebrow: `That was ${year}`,
+      headline: "See you on the road",
+      detail: `${plural(stats.totalRides, "ride")} · ${formatMiles(
+        stats.totalDistanceKm
+      )} · ${plural(stats.stationsVisited, "station")}`,
+    },
+  ];
+  return slides.filter((slide): slide is WrappedSlide => slide !== null);
+}
+
+export function drawWrappedSlide(
+  canvas: HTMLCanvasElement,
+  slide: WrappedSlide,
+  index: number,
+  total: number,
+  year: number
+): void {
+  canvas.width = SLIDE_WIDTH;
+  canvas.height = SLIDE_HEIGHT;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const padding = 96;
+  const maxWidth = SLIDE_WIDTH - padding * 2;
+
+  const [from, to] = SLIDE_BACKGROUNDS[index % SLIDE_BACKGROUNDS.length];
+  const gradient = ctx.createLinearGradient(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT);
+  gradient.addColorStop(0, from);
+  gradient.addColorStop(1, to);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT);
+
+  // Story-style progress segments
+  const gap = 8;
+  const segmentWidth = (SLIDE_WIDTH - padding - gap * (total - 1)) / total;
+  for (let i = 0; i < total; i++) {
+    ctx.fillStyle = i <= index ? BRAND_COLORS.text : "rgba(255, 255, 255, 0.3)";
+    ctx.beginPath();
+    ctx.roundRect(
+      padding / 2 + i * (segmentWidth + gap),
+      48,
+      segmentWidth,
+      8,
+      4
+    );
+    ctx.fill();
+  }
+
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+
+  ctx.fillStyle = BRAND_COLORS.muted;
+  ctx.fillText(
+    fitText(ctx, slide.eyebrow.toUpperCase(), maxWidth, 44, 24, "bold"),
+    padding,
+    640
+  );
+
+  ctx.fillStyle = BRAND_COLORS.text;
+  // Long headlines (station names) drop to a smaller size
+  let headlineSize = 128;
+  setFont(ctx, headlineSize, "bold");
+  let headlineLines = wrapText(ctx, slide.headline, maxWidth);
+  if (headlineLines.length > 3) {
+    headlineSize = 88;
+    setFont(ctx, headlineSize, "bold");
+    headlineLines = wrapText(ctx, slide.headline, maxWidth).slice(0, 4);
+  }
+  let y = 720;
+  headlineLines.forEach((line) => {
+    ctx.fillText(
+      fitText(ctx, line, maxWidth, headlineSize, 48, "bold"),
+      padding,
+      y
+    );
+    y += headlineSize * 1.1;
+  });
+
+  if (slide.detail) {
+    ctx.fillStyle = BRAND_COLORS.muted;
+    setFont(ctx, 52);
+    y += 32;
+    wrapText(ctx, slide.detail, maxWidth)
+      .slice(0, 5)
+      .forEach((line) => {
+        ctx.fillText(line, padding, y);
+        y += 68;
+      });
+  }
+
+  ctx.fillStyle = BRAND_COLORS.muted;
+  ctx.textBaseline = "bottom";
+  setFont(ctx, 36, "bold");
+  ctx.fillText(
+    `Santander Cycle Stats · ${year} Wrapped`,
+    padding,
+    SLIDE_HEIGHT - 96
+  );
+}
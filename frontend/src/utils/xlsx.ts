@@ -0,0 +1,115 @@
+import type { CellValue, ExportTable } from "./tableExport";
+import { createZip } from "./zip";
+
+// Minimal XLSX (Office Open XML) writer: one worksheet per table, strings
+// stored inline and the header row in bold.
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Control characters other than tab and line breaks aren't allowed in XML
+const isXmlChar = (char: string) =>
+  char.charCodeAt(0) >= 0x20 || char === "\t" || char === "\n" || char === "\r";
+
+const escapeXml = (value: string) =>
+  [...value]
+    .filter(isXmlChar)
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Excel column letters: 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = "";
+  for (let i = index + 1; i > 0; i = Math.floor((i - 1) / 26)) {
+    name = String.fromCharCode(65 + ((i - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Sheet names are limited to 31 characters and can't contain []:*?/\
+const sheetName = (name: string) =>
+  name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet";
+
+function worksheetXml(rows: CellValue[][]): string {
+  const rowsXml = rows
+    .map((row, r) => {
+      const style = r === 0 ? ' s="1"' : "";
+      const cells = row
+        .map((value, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (value === null || value === "") return "";
+          if (typeof value === "number") {
+            return Number.isFinite(value)
+              ? `<c r="${ref}"${style}><v>${value}</v></c>`
+              : "";
+          }
+          return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+            value
+          )}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${rowsXml}</sheetData></worksheet>`;
+}
+
+export function createXlsx(tables: ExportTable[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const file = (name: string, content: string) => ({
+    name,
+    data: encoder.encode(content),
+  });
+
+  const sheetEntries = tables.map((table, i) => ({
+    id: i + 1,
+    name: escapeXml(sheetName(table.name)),
+    xml: worksheetXml([table.columns, ...table.rows]),
+  }));
+
+  return createZip([
+    file(
+      "[Content_Types].xml",
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheetEntries
+        .map(
+          ({ id }) =>
+            `<Override PartName="/xl/worksheets/sheet${id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        )
+        .join("")}</Types>`
+    ),
+    file(
+      "_rels/.rels",
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    ),
+    file(
+      "xl/workbook.xml",
+      `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheetEntries
+        .map(
+          ({ id, name }) =>
+            `<sheet name="${name}" sheetId="${id}" r:id="rId${id}"/>`
+        )
+        .join("")}</sheets></workbook>`
+    ),
+    file(
+      "xl/_rels/workbook.xml.rels",
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetEntries
+        .map(
+          ({ id }) =>
+            `<Relationship Id="rId${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${id}.xml"/>`
+        )
+        .join("")}<Relationship Id="rId${
+        sheetEntries.length + 1
+      }" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+    ),
+    file(
+      "xl/styles.xml",
+      `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`
+    ),
+    ...sheetEntries.map(({ id, xml }) =>
+      file(`xl/worksheets/sheet${id}.xml`, xml)
+    ),
+  ]);
+}
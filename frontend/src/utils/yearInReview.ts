@@ -0,0 +1,87 @@
+import type { Station } from "../schemas/station";
+import type { EnrichedRide } from "../types/ride";
+import { computeRideStats, type RideStats } from "./rideAggregates";
+
+export interface YearTotals {
+  year: number;
+  totalRides: number;
+  totalDistanceKm: number;
+  totalTimeCyclingMinutes: number;
+}
+
+export interface YearInReview {
+  year: number;
+  stats: RideStats; // stats for this year's rides only
+  firstRide: EnrichedRide | null;
+  lastRide: EnrichedRide | null;
+  newStationCount: number; // stations used for the first time this year
+  previousYear: YearTotals | null; // null if there were no rides
+}
+
+// Years with at least one ride, newest first
+export function getRideYears(rides: EnrichedRide[]): number[] {
+  const years = new Set<number>();
+  rides.forEach((ride) => {
+    if (ride.dateParts) years.add(ride.dateParts.year);
+  });
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+function getYearTotals(year: number, rides: EnrichedRide[]): YearTotals {
+  return {
+    year,
+    totalRides: rides.length,
+    totalDistanceKm: rides.reduce((sum, r) => sum + (r.distanceKm ?? 0), 0),
+    totalTimeCyclingMinutes: rides.reduce(
+      (sum, r) => sum + (r.durationMinutes ?? 0),
+      0
+    ),
+  };
+}
+
+export function computeYearInReview(
+  rides: EnrichedRide[],
+  stations: Station[],
+  year: number
+): YearInReview {
+  const yearRides: EnrichedRide[] = [];
+  const previousYearRides: EnrichedRide[] = [];
+  const earlierStationIds = new Set<string>();
+
+  rides.forEach((ride) => {
+    const rideYear = ride.dateParts?.year;
+    if (rideYear === undefined) return;
+    if (rideYear === year) {
+      yearRides.push(ride);
+    } else if (rideYear < year) {
+      if (rideYear === year - 1) previousYearRides.push(ride);
+      if (ride.startStation) earlierStationIds.add(ride.startStation.id);
+      if (ride.endStation) earlierStationIds.add(ride.endStation.id);
+    }
+  });
+
+  const byStartTime = yearRides
+    .filter((ride) => ride.startTimeMs !== null)
+    .sort((a, b) => (a.startTimeMs ?? 0) - (b.startTimeMs ?? 0));
+
+  const newStationIds = new Set<string>();
+  yearRides.forEach((ride) => {
+    [ride.startStation, ride.endStation].forEach((station) => {
+      if (station && !earlierStationIds.has(station.id)) {
+        newStationIds.add(station.id);
+      }
+    });
+  });
+
+  return {
+    year,
+    stats: computeRideStats(yearRides, stations),
+    firstRide: byStartTime[0] ?? null,
+    lastRide: byStartTime[byStartTime.length - 1] ?? null,
+    newStationCount: newStationIds.size,
+    previousYear:
+      previousYearRides.length > 0
+        ? getYearTotals(year - 1, previousYearRides)
+        : null,
+  };
+}
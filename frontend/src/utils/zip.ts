@@ -0,0 +1,121 @@
+// Minimal ZIP writer. Files are stored uncompressed, which is all the XLSX
+// export needs.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields, as used by ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+export function createZip(
+  entries: ZipEntry[],
+  modified = new Date()
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const files = entries.map((entry) => ({
+    ...entry,
+    nameBytes: encoder.encode(entry.name),
+    crc: crc32(entry.data),
+  }));
+
+  const localSize = files.reduce(
+    (sum, f) => sum + 30 + f.nameBytes.length + f.data.length,
+    0
+  );
+  const centralSize = files.reduce(
+    (sum, f) => sum + 46 + f.nameBytes.length,
+    0
+  );
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  const writeHeader = (
+    signature: number,
+    file: (typeof files)[number],
+    central: boolean,
+    localOffset = 0
+  ) => {
+    view.setUint32(offset, signature, true);
+    offset += 4;
+    if (central) {
+      view.setUint16(offset, 20, true); // version made by
+      offset += 2;
+    }
+    view.setUint16(offset, 20, true); // version needed to extract
+    view.setUint16(offset + 2, 0x0800, true); // UTF-8 file names
+    view.setUint16(offset + 4, 0, true); // stored, no compression
+    view.setUint16(offset + 6, time, true);
+    view.setUint16(offset + 8, date, true);
+    view.setUint32(offset + 10, file.crc, true);
+    view.setUint32(offset + 14, file.data.length, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint16(offset + 22, file.nameBytes.length, true);
+    view.setUint16(offset + 24, 0, true); // extra field length
+    offset += 26;
+    if (central) {
+      // Comment length, disk number and file attributes are left as zero
+      offset += 10;
+      view.setUint32(offset, localOffset, true);
+      offset += 4;
+    }
+    output.set(file.nameBytes, offset);
+    offset += file.nameBytes.length;
+  };
+
+  const localOffsets: number[] = [];
+  files.forEach((file) => {
+    localOffsets.push(offset);
+    writeHeader(0x04034b50, file, false);
+    output.set(file.data, offset);
+    offset += file.data.length;
+  });
+
+  const centralOffset = offset;
+  files.forEach((file, i) => {
+    writeHeader(0x02014b50, file, true, localOffsets[i]);
+  });
+
+  // End of central directory record
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return output;
+}
@@ -0,0 +1,10 @@
+import {
+  runAnalyticsPipeline,
+  type AnalyticsRequest,
+} from "../utils/analyticsPipeline";
+
+// Runs station matching and aggregation off the main thread so large ride
+// histories don't freeze the page
+self.onmessage = (event: MessageEvent<AnalyticsRequest>) => {
+  runAnalyticsPipeline(event.data, (message) => self.postMessage(message));
+};